@@ -0,0 +1,127 @@
+// ================= Chat 流式响应（SSE） =================
+// stream: true 时立即建立 SSE 连接，在上游生成期间持续输出：
+// - keep-alive 注释行（避免代理/客户端空闲超时）
+// - 进度增量（调用渠道、任务提交、轮询状态、参考图处理等）
+// - 生成完成后输出图片 Markdown、finish_reason=stop 与 [DONE]
+// 进度默认以 reasoning_content 输出（支持“思考过程”的客户端会折叠显示，不污染最终内容），
+// 可用 STREAM_PROGRESS=content 改为写入 content，或 off 关闭。
+
+import type { GenerationProgress } from "./provider_registry.ts";
+
+export type StreamProgressMode = "reasoning" | "content" | "off";
+
+export interface ChatStreamOptions {
+  id: string;
+  // 初始 chunk 使用的模型名（生成完成后以实际模型为准）
+  model: string;
+  keepAliveMs: number;
+  progressMode: StreamProgressMode;
+}
+
+export interface ChatStreamResult {
+  content: string;
+  model: string;
+}
+
+// 进度回调：输出一行进度文本
+export type ProgressWriter = (text: string) => void;
+
+export function parseStreamProgressMode(value: string | undefined): StreamProgressMode {
+  const v = (value ?? "").trim().toLowerCase();
+  if (v === "content") return "content";
+  if (v === "off" || v === "false" || v === "0") return "off";
+  return "reasoning";
+}
+
+// 将渠道进度事件格式化为一行文本
+export function formatProgress(progress: GenerationProgress): string {
+  switch (progress.stage) {
+    case "started":
+      return `正在调用 ${progress.provider} 生成图片…`;
+    case "submitted":
+      return `${progress.provider} 任务已提交${progress.taskId ? ` (${progress.taskId})` : ""}`;
+    case "polling":
+      return `${progress.provider} 任务状态: ${progress.taskStatus ?? "未知"}（第 ${
+        progress.attempt ?? 0
+      } 次查询）`;
+  }
+}
+
+/**
+ * 创建 SSE 流：立即开始输出，work 完成后输出最终内容
+ * - work 抛错时输出 OpenAI 风格的 error 事件后结束
+ * - 客户端断开时停止 keep-alive 并中止传给 work 的 signal，后续输出被忽略
+ */
+export function createChatProgressStream(
+  options: ChatStreamOptions,
+  work: (progress: ProgressWriter, signal: AbortSignal) => Promise<ChatStreamResult>,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const created = Math.floor(Date.now() / 1000);
+  const abort = new AbortController();
+  let closed = false;
+  let keepAlive: ReturnType<typeof setInterval> | undefined;
+
+  const stop = (): void => {
+    closed = true;
+    clearInterval(keepAlive);
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string): void => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          // 客户端已断开
+          stop();
+          abort.abort();
+        }
+      };
+      const sendChunk = (
+        model: string,
+        delta: Record<string, string>,
+        finishReason: string | null = null,
+      ): void => {
+        const chunk = {
+          id: options.id,
+          object: "chat.completion.chunk",
+          created,
+          model,
+          choices: [{ index: 0, delta, finish_reason: finishReason }],
+        };
+        send(`data: ${JSON.stringify(chunk)}\n\n`);
+      };
+
+      sendChunk(options.model, { role: "assistant", content: "" });
+      if (options.keepAliveMs > 0) {
+        keepAlive = setInterval(() => send(": keep-alive\n\n"), options.keepAliveMs);
+      }
+
+      const progress: ProgressWriter = (text) => {
+        if (options.progressMode === "reasoning") {
+          sendChunk(options.model, { reasoning_content: `${text}\n` });
+        } else if (options.progressMode === "content") {
+          sendChunk(options.model, { content: `> ${text}\n\n` });
+        }
+      };
+
+      work(progress, abort.signal).then((result) => {
+        sendChunk(result.model, { content: result.content });
+        sendChunk(result.model, {}, "stop");
+      }).catch((err) => {
+        const message = err instanceof Error ? err.message : String(err);
+        send(`data: ${JSON.stringify({ error: { message, type: "server_error" } })}\n\n`);
+      }).finally(() => {
+        send("data: [DONE]\n\n");
+        if (!closed) controller.close();
+        stop();
+      });
+    },
+    cancel() {
+      stop();
+      abort.abort();
+    },
+  });
+}
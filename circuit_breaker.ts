@@ -0,0 +1,139 @@
+// ================= 渠道熔断器 =================
+// closed：正常放行，连续失败达到阈值后 → open
+// open：直接拒绝（快速失败 / 触发回退），冷却时间到后 → half_open
+// half_open：只放行一个探测请求，成功 → closed，失败 → open
+// 只有渠道故障（5xx / 超时 / 429 / 网络错误等）计入失败，请求本身的 4xx 错误不计入。
+
+import { getEnvInt } from "./config.ts";
+import { info, warn } from "./logger.ts";
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+interface Breaker {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number;
+  probeInFlight: boolean;
+}
+
+// 熔断期间拒绝请求时抛出
+export class CircuitOpenError extends Error {
+  constructor(provider: string) {
+    super(`${provider} 熔断中，暂停请求（连续失败过多，稍后自动探测恢复）`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+const breakers = new Map<string, Breaker>();
+
+function getBreaker(provider: string): Breaker {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = { state: "closed", consecutiveFailures: 0, openedAt: 0, probeInFlight: false };
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+// 连续失败阈值（<=0 表示关闭熔断）：<渠道>_CIRCUIT_BREAKER_THRESHOLD > CIRCUIT_BREAKER_THRESHOLD
+function getThreshold(envPrefix: string): number {
+  return getEnvInt(
+    `${envPrefix}_CIRCUIT_BREAKER_THRESHOLD`,
+    getEnvInt("CIRCUIT_BREAKER_THRESHOLD", 5),
+  );
+}
+
+function getCooldownMs(envPrefix: string): number {
+  return getEnvInt(
+    `${envPrefix}_CIRCUIT_BREAKER_COOLDOWN_MS`,
+    getEnvInt("CIRCUIT_BREAKER_COOLDOWN_MS", 30_000),
+  );
+}
+
+/**
+ * 请求前检查熔断状态
+ * @returns 是否放行（open 状态冷却结束时放行一个半开探测请求）
+ */
+export function allowRequest(
+  provider: string,
+  envPrefix: string,
+  now: number = Date.now(),
+): boolean {
+  if (getThreshold(envPrefix) <= 0) return true;
+
+  const breaker = getBreaker(provider);
+  if (breaker.state === "closed") return true;
+
+  if (breaker.state === "open") {
+    if (now - breaker.openedAt < getCooldownMs(envPrefix)) return false;
+    breaker.state = "half_open";
+    breaker.probeInFlight = false;
+    info("Circuit", `${provider} 熔断冷却结束，进入半开状态`);
+  }
+
+  if (breaker.probeInFlight) return false;
+  breaker.probeInFlight = true;
+  info("Circuit", `${provider} 半开探测请求放行`);
+  return true;
+}
+
+export function recordSuccess(provider: string): void {
+  const breaker = getBreaker(provider);
+  if (breaker.state !== "closed") {
+    info("Circuit", `${provider} 探测成功，熔断关闭`);
+  }
+  breaker.state = "closed";
+  breaker.consecutiveFailures = 0;
+  breaker.probeInFlight = false;
+}
+
+// 请求被取消（结果未知）：不计成功也不计失败，只释放半开探测名额
+export function recordCancelled(provider: string): void {
+  getBreaker(provider).probeInFlight = false;
+}
+
+export function recordFailure(
+  provider: string,
+  envPrefix: string,
+  now: number = Date.now(),
+): void {
+  const threshold = getThreshold(envPrefix);
+  if (threshold <= 0) return;
+
+  const breaker = getBreaker(provider);
+  breaker.consecutiveFailures++;
+  breaker.probeInFlight = false;
+
+  if (breaker.state === "half_open") {
+    breaker.state = "open";
+    breaker.openedAt = now;
+    warn("Circuit", `${provider} 半开探测失败，重新熔断`);
+    return;
+  }
+
+  if (breaker.state === "closed" && breaker.consecutiveFailures >= threshold) {
+    breaker.state = "open";
+    breaker.openedAt = now;
+    warn(
+      "Circuit",
+      `${provider} 连续失败 ${breaker.consecutiveFailures} 次，熔断打开（${
+        getCooldownMs(envPrefix)
+      }ms 后探测）`,
+    );
+  }
+}
+
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+}
+
+export function getCircuitStatus(provider: string): CircuitStatus {
+  const breaker = getBreaker(provider);
+  return {
+    state: breaker.state,
+    consecutiveFailures: breaker.consecutiveFailures,
+    ...(breaker.state !== "closed" ? { openedAt: new Date(breaker.openedAt).toISOString() } : {}),
+  };
+}
@@ -1,11 +1,99 @@
 // ================= 渠道配置 =================
-// 支持：火山引擎 (VolcEngine/豆包)、Gitee (模力方舟)、ModelScope (魔塔)
+// 支持：火山引擎 (VolcEngine/豆包)、Gitee (模力方舟)、ModelScope (魔塔)、OpenAI 兼容渠道（可选）
+
+// 服务端 Key 池中的上游 Key（alias 用于日志，避免暴露 Key 本身）
+export interface PoolKey {
+  alias: string;
+  key: string;
+}
+
+// Key 池选择策略：轮询 / 优先选最久未失败的 Key
+export type KeyStrategy = "round_robin" | "least_recently_failed";
+
+// 上游重试策略（未设置的字段使用环境变量 / 默认值）
+export interface RetryPolicy {
+  // 最大尝试次数（含首次），1 表示不重试
+  maxAttempts: number;
+  // 指数退避基准延迟与上限（毫秒）
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// 回退链中的一跳：渠道名 + 该渠道使用的模型（未指定时使用其默认模型）
+export interface FallbackHop {
+  provider: string;
+  model?: string;
+}
+
+// 模型别名：友好名称 → 渠道（可选）+ 上游模型 + 默认尺寸（可选）
+export interface ModelAlias {
+  provider?: string;
+  model: string;
+  size?: string;
+}
+
+// 提示词模板（见 prompt_template.ts）：template 中的 {{prompt}} 替换为原 prompt，再加上前后缀
+export interface PromptTemplate {
+  prefix?: string;
+  suffix?: string;
+  template?: string;
+}
+
+// 服务端提示词模板：按模型 / 别名（"*" 为默认）与客户端 Key 配置
+export interface PromptTemplates {
+  models?: Record<string, PromptTemplate>;
+  keys?: Record<string, PromptTemplate>;
+}
+
+// 尺寸约束（见 image_size.ts）：请求的尺寸按约束吸附到最接近的合法尺寸
+export interface SizeLimits {
+  // 单边范围（像素）
+  minSide?: number;
+  maxSide?: number;
+  // 总像素范围
+  minPixels?: number;
+  maxPixels?: number;
+  // 宽高需为该值的整数倍
+  multipleOf?: number;
+  // 宽高比上限（长边 / 短边）
+  maxAspectRatio?: number;
+  // 只接受的固定尺寸（"WxH"）；设置后忽略其余约束，取宽高比与总像素最接近的一项
+  presets?: string[];
+}
+
+// 通用生成参数在上游请求体中的字段名（见 generation_params.ts）；未列出的参数表示该渠道不支持
+export interface ParamFields {
+  seed?: string;
+  negativePrompt?: string;
+  steps?: string;
+  guidance?: string;
+  watermark?: string;
+}
 
 // 渠道配置接口
 export interface ProviderConfig {
   apiUrl: string;
   defaultModel: string;
   supportedModels: string[];
+  // 未指定 size 时使用的默认尺寸
+  defaultSize: string;
+  // 上游接受的尺寸范围（未设置时不限制）
+  sizeLimits?: SizeLimits;
+  // 支持的通用生成参数及其上游字段名
+  paramFields?: ParamFields;
+  // 上游请求超时（毫秒），未设置时使用 API_TIMEOUT_MS
+  timeoutMs?: number;
+  // 服务端 Key 池（为空时直接转发客户端 Key）
+  keys?: PoolKey[];
+  keyStrategy?: KeyStrategy;
+  // 局部重绘蒙版在上游请求体中的字段名（未设置表示该渠道不支持蒙版）
+  maskField?: string;
+  // 上游单次请求最多生成的图片数（未设置时读取 <渠道>_MAX_IMAGES_PER_CALL，默认 1）
+  // n 超过该值时拆分为多次并发调用
+  maxImagesPerCall?: number;
+  // 本渠道失败（5xx/超时/429 等）时依次尝试的回退渠道
+  fallback?: FallbackHop[];
+  retry?: Partial<RetryPolicy>;
 }
 
 // 火山引擎（豆包）配置
@@ -16,6 +104,13 @@ export const VolcEngineConfig: ProviderConfig = {
     "doubao-seedream-4-0-250828",
     "doubao-seedream-4-5-251128",
   ],
+  defaultSize: "4096x4096",
+  // Seedream 4.0：总像素 [1280x720, 4096x4096]，宽高比 [1/16, 16]
+  sizeLimits: { minPixels: 1280 * 720, maxPixels: 4096 * 4096, maxAspectRatio: 16 },
+  paramFields: { seed: "seed", watermark: "watermark" },
+  keys: parsePoolKeys(Deno.env.get("VOLCENGINE_API_KEYS"), "volcengine"),
+  keyStrategy: parseKeyStrategy(Deno.env.get("VOLCENGINE_KEY_STRATEGY")),
+  fallback: parseFallbackChain(Deno.env.get("VOLCENGINE_FALLBACK")),
 };
 
 // Gitee（模力方舟）配置
@@ -25,6 +120,17 @@ export const GiteeConfig: ProviderConfig = {
   supportedModels: [
     "z-image-turbo",
   ],
+  defaultSize: "2048x2048",
+  sizeLimits: { minSide: 512, maxSide: 2048, multipleOf: 64 },
+  paramFields: {
+    seed: "seed",
+    negativePrompt: "negative_prompt",
+    steps: "num_inference_steps",
+    guidance: "guidance_scale",
+  },
+  keys: parsePoolKeys(Deno.env.get("GITEE_API_KEYS"), "gitee"),
+  keyStrategy: parseKeyStrategy(Deno.env.get("GITEE_KEY_STRATEGY")),
+  fallback: parseFallbackChain(Deno.env.get("GITEE_FALLBACK")),
 };
 
 // ModelScope（魔塔）配置
@@ -34,11 +140,144 @@ export const ModelScopeConfig: ProviderConfig = {
   supportedModels: [
     "z-image-turbo",
   ],
+  defaultSize: "2048x2048",
+  sizeLimits: { minSide: 512, maxSide: 2048, multipleOf: 64 },
+  paramFields: {
+    seed: "seed",
+    negativePrompt: "negative_prompt",
+    steps: "steps",
+    guidance: "guidance",
+  },
+  keys: parsePoolKeys(Deno.env.get("MODELSCOPE_API_KEYS"), "modelscope"),
+  keyStrategy: parseKeyStrategy(Deno.env.get("MODELSCOPE_KEY_STRATEGY")),
+  fallback: parseFallbackChain(Deno.env.get("MODELSCOPE_FALLBACK")),
 };
 
+// ================= Key 池配置解析 =================
+
+/**
+ * 解析 Key 池环境变量：逗号分隔，每项为 "alias=key" 或 "key"
+ * - 未写 alias 时按顺序生成（如 volcengine-1）；建议显式写 alias，保证日志中的标识稳定
+ */
+export function parsePoolKeys(value: string | undefined, aliasPrefix: string): PoolKey[] {
+  return parseList(value).map((item, i) => {
+    const eq = item.indexOf("=");
+    if (eq > 0) {
+      return { alias: item.slice(0, eq).trim(), key: item.slice(eq + 1).trim() };
+    }
+    return { alias: `${aliasPrefix}-${i + 1}`, key: item };
+  }).filter((k) => k.alias !== "" && k.key !== "");
+}
+
+export function parseKeyStrategy(value: string | undefined): KeyStrategy | undefined {
+  const v = (value ?? "").trim().toLowerCase();
+  if (v === "round_robin") return "round_robin";
+  if (v === "least_recently_failed") return "least_recently_failed";
+  return undefined;
+}
+
+/**
+ * 解析回退链环境变量：逗号分隔，每项为 "provider/model" 或 "provider"
+ * 例：VOLCENGINE_FALLBACK=gitee/z-image-turbo,modelscope
+ */
+export function parseFallbackChain(value: string | undefined): FallbackHop[] {
+  return parseList(value).map((item) => {
+    const slash = item.indexOf("/");
+    if (slash <= 0) return { provider: item };
+    const provider = item.slice(0, slash).trim();
+    const model = item.slice(slash + 1).trim();
+    return model ? { provider, model } : { provider };
+  });
+}
+
+/**
+ * 解析模型别名环境变量：逗号分隔，每项为 "alias=provider/model@size"，provider 与 @size 可省略
+ * 例：MODEL_ALIASES=seedream-latest=volcengine/doubao-seedream-4-5-251128@2048x2048,z-image=gitee/z-image-turbo
+ * - 斜杠前缀是否为渠道名在解析别名时判断（兼容 "Tongyi-MAI/Z-Image-Turbo" 这类模型名）
+ */
+export function parseModelAliases(value: string | undefined): Record<string, ModelAlias> {
+  const out: Record<string, ModelAlias> = {};
+  for (const item of parseList(value)) {
+    const eq = item.indexOf("=");
+    if (eq <= 0) continue;
+    const name = item.slice(0, eq).trim();
+    let target = item.slice(eq + 1).trim();
+    let size: string | undefined;
+    const at = target.lastIndexOf("@");
+    if (at > 0) {
+      size = target.slice(at + 1).trim() || undefined;
+      target = target.slice(0, at).trim();
+    }
+    if (!name || !target) continue;
+    out[name] = size ? { model: target, size } : { model: target };
+  }
+  return out;
+}
+
+// OpenAI 兼容图像渠道（可选）：任意实现 /v1/images/generations 的上游（自建网关、其他云厂商等）
+export interface OpenAICompatProviderConfig extends ProviderConfig {
+  // 匹配该渠道 API Key 的正则；未配置时只能通过显式指定渠道路由
+  keyPattern?: string;
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? "").split(",").map((v) => v.trim()).filter((v) => v !== "");
+}
+
+// 设置 OPENAI_COMPAT_BASE_URL（如 http://localhost:8000/v1）后启用
+function loadOpenAICompatConfig(): OpenAICompatProviderConfig | undefined {
+  const baseUrl = Deno.env.get("OPENAI_COMPAT_BASE_URL")?.trim().replace(/\/+$/, "");
+  if (!baseUrl) return undefined;
+
+  const defaultModel = Deno.env.get("OPENAI_COMPAT_DEFAULT_MODEL")?.trim() || "gpt-image-1";
+  const models = parseList(Deno.env.get("OPENAI_COMPAT_MODELS"));
+  const keyPattern = Deno.env.get("OPENAI_COMPAT_KEY_PATTERN")?.trim() || undefined;
+  // 上游只接受固定尺寸时配置（如 OpenAI：1024x1024,1536x1024,1024x1536）
+  const sizes = parseList(Deno.env.get("OPENAI_COMPAT_SIZES"));
+  // 蒙版随 JSON 请求体发往 /images/generations，仅适用于接受该字段的上游（OpenAI 本身的局部重绘
+  // 走 multipart 的 /images/edits），因此默认不开启
+  const maskField = Deno.env.get("OPENAI_COMPAT_MASK_FIELD")?.trim();
+
+  return {
+    apiUrl: baseUrl,
+    defaultModel,
+    supportedModels: models.length > 0 ? models : [defaultModel],
+    defaultSize: Deno.env.get("OPENAI_COMPAT_DEFAULT_SIZE")?.trim() || "1024x1024",
+    ...(sizes.length > 0 ? { sizeLimits: { presets: sizes } } : {}),
+    keys: parsePoolKeys(Deno.env.get("OPENAI_COMPAT_API_KEYS"), "openai-compat"),
+    keyStrategy: parseKeyStrategy(Deno.env.get("OPENAI_COMPAT_KEY_STRATEGY")),
+    fallback: parseFallbackChain(Deno.env.get("OPENAI_COMPAT_FALLBACK")),
+    ...(maskField ? { maskField } : {}),
+    // OpenAI Images API 单次最多 10 张
+    maxImagesPerCall: getEnvInt("OPENAI_COMPAT_MAX_IMAGES_PER_CALL", 10),
+    keyPattern,
+  };
+}
+
+export const OpenAICompatConfig = loadOpenAICompatConfig();
+
 // 统一超时时间：120秒（适用于所有渠道的 API 请求）
 export const API_TIMEOUT_MS = 120000;
 
+// 单个请求的总时限（含重试、ModelScope 轮询与跨渠道回退）：默认 6 分钟
+export const REQUEST_DEADLINE_MS = getEnvInt("REQUEST_DEADLINE_MS", 360000);
+
+// ================= 环境变量辅助函数 =================
+
+export function getEnvInt(name: string, fallback: number): number {
+  const raw = Deno.env.get(name);
+  const n = Number.parseInt((raw ?? "").trim(), 10);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+export function getEnvBool(name: string, fallback: boolean): boolean {
+  const raw = (Deno.env.get(name) ?? "").trim().toLowerCase();
+  if (raw === "") return fallback;
+  if (raw === "1" || raw === "true" || raw === "yes" || raw === "on") return true;
+  if (raw === "0" || raw === "false" || raw === "no" || raw === "off") return false;
+  return fallback;
+}
+
 // 服务端口
 function parsePort(value: string | undefined, fallback: number): number {
   const parsed = Number.parseInt(value ?? String(fallback), 10);
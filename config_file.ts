@@ -0,0 +1,452 @@
+// ================= 文件配置（热加载） =================
+// 通过 JSON 文件覆盖已注册渠道的 URL / 模型 / 默认尺寸 / 尺寸约束 / 生成参数字段 / 超时 / 重试 /
+// Key 池 / 回退链 / 蒙版字段 / 单次调用图片数，
+// 以及模型别名表、提示词模板，无需重新构建镜像。
+// 文件示例：
+// {
+//   "providers": {
+//     "VolcEngine": {
+//       "apiUrl": "https://ark.cn-beijing.volces.com/api/v3/images/generations",
+//       "defaultModel": "doubao-seedream-4-5-251128",
+//       "supportedModels": ["doubao-seedream-4-0-250828", "doubao-seedream-4-5-251128"],
+//       "defaultSize": "2048x2048",
+//       "sizeLimits": { "minPixels": 921600, "maxPixels": 16777216, "maxAspectRatio": 16 },
+//       "paramFields": { "seed": "seed", "watermark": "watermark" },
+//       "timeoutMs": 90000,
+//       "maxImagesPerCall": 1,
+//       "retry": { "maxAttempts": 3, "baseDelayMs": 500, "maxDelayMs": 8000 },
+//       "keys": [{ "alias": "volc-main", "key": "..." }],
+//       "keyStrategy": "round_robin",
+//       "fallback": [{ "provider": "Gitee", "model": "z-image-turbo" }, { "provider": "ModelScope" }]
+//     }
+//   },
+//   "aliases": {
+//     "seedream-latest": { "provider": "VolcEngine", "model": "doubao-seedream-4-5-251128", "size": "2048x2048" }
+//   },
+//   "prompts": {
+//     "models": { "seedream-latest": { "suffix": "高清，细节丰富" }, "*": { "suffix": "no nsfw" } },
+//     "keys": { "sk-team-design": { "template": "扁平插画风格：{{prompt}}" } }
+//   }
+// }
+// 校验失败时：启动阶段直接报错退出；热加载阶段保留旧配置并记录错误。
+// 配置原地更新到渠道对象上，进行中的请求不受影响（模型/尺寸在请求开始时已解析）。
+
+import {
+  type ModelAlias,
+  type ParamFields,
+  parseKeyStrategy,
+  type PromptTemplate,
+  type PromptTemplates,
+  type ProviderConfig,
+  type RetryPolicy,
+  type SizeLimits,
+} from "./config.ts";
+import { parseSizeSpec } from "./image_size.ts";
+import { GENERATION_PARAM_NAMES } from "./generation_params.ts";
+import { debug, error, info } from "./logger.ts";
+import { setFileModelAliases } from "./model_aliases.ts";
+import { PROMPT_PLACEHOLDER, setFilePromptTemplates } from "./prompt_template.ts";
+import { getProvider, type ProviderAdapter } from "./provider_registry.ts";
+
+export type ProviderOverride = Partial<ProviderConfig>;
+
+export interface FileConfig {
+  providers: Record<string, ProviderOverride>;
+  aliases?: Record<string, ModelAlias>;
+  prompts?: PromptTemplates;
+}
+
+// 默认配置文件路径（docker-compose 挂载 ./config 目录）
+export const DEFAULT_CONFIG_FILE = "./config/providers.json";
+
+export function getConfigFilePath(): string {
+  return Deno.env.get("CONFIG_FILE")?.trim() || DEFAULT_CONFIG_FILE;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function expectString(v: unknown, path: string): string {
+  if (typeof v !== "string" || v.trim() === "") {
+    throw new Error(`Invalid config: ${path} must be a non-empty string`);
+  }
+  return v.trim();
+}
+
+function expectSize(v: unknown, path: string): string {
+  const size = expectString(v, path);
+  if (!parseSizeSpec(size)) {
+    throw new Error(`Invalid config: ${path} must be WxH, W:H, 1K/2K/4K or auto`);
+  }
+  return size;
+}
+
+const SIZE_LIMIT_FIELDS = [
+  "minSide",
+  "maxSide",
+  "minPixels",
+  "maxPixels",
+  "multipleOf",
+  "maxAspectRatio",
+] as const;
+
+function validateSizeLimits(raw: unknown, path: string): SizeLimits {
+  if (!isRecord(raw)) throw new Error(`Invalid config: ${path} must be an object`);
+  const limits: SizeLimits = {};
+  for (const [field, v] of Object.entries(raw)) {
+    if (field === "presets") {
+      if (!Array.isArray(v)) throw new Error(`Invalid config: ${path}.presets must be an array`);
+      limits.presets = v.map((p, i) => {
+        const size = expectString(p, `${path}.presets[${i}]`);
+        if (parseSizeSpec(size)?.kind !== "exact") {
+          throw new Error(`Invalid config: ${path}.presets[${i}] must be WxH`);
+        }
+        return size;
+      });
+      continue;
+    }
+    const key = SIZE_LIMIT_FIELDS.find((f) => f === field);
+    if (!key) throw new Error(`Invalid config: unknown field ${path}.${field}`);
+    if (typeof v !== "number" || !Number.isFinite(v) || v <= 0) {
+      throw new Error(`Invalid config: ${path}.${field} must be a positive number`);
+    }
+    limits[key] = v;
+  }
+  return limits;
+}
+
+function validateParamFields(raw: unknown, path: string): ParamFields {
+  if (!isRecord(raw)) throw new Error(`Invalid config: ${path} must be an object`);
+  const fields: ParamFields = {};
+  for (const [name, v] of Object.entries(raw)) {
+    const key = GENERATION_PARAM_NAMES.find((n) => n === name);
+    if (!key) throw new Error(`Invalid config: unknown field ${path}.${name}`);
+    fields[key] = expectString(v, `${path}.${name}`);
+  }
+  return fields;
+}
+
+function validateProviderOverride(raw: unknown, path: string): ProviderOverride {
+  if (!isRecord(raw)) throw new Error(`Invalid config: ${path} must be an object`);
+
+  const out: ProviderOverride = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const fieldPath = `${path}.${key}`;
+    switch (key) {
+      case "apiUrl": {
+        const apiUrl = expectString(value, fieldPath);
+        try {
+          new URL(apiUrl);
+        } catch {
+          throw new Error(`Invalid config: ${fieldPath} is not a valid URL`);
+        }
+        out.apiUrl = apiUrl.replace(/\/+$/, "");
+        break;
+      }
+      case "defaultModel":
+        out.defaultModel = expectString(value, fieldPath);
+        break;
+      case "defaultSize":
+        out.defaultSize = expectSize(value, fieldPath);
+        break;
+      case "sizeLimits":
+        out.sizeLimits = validateSizeLimits(value, fieldPath);
+        break;
+      case "paramFields":
+        out.paramFields = validateParamFields(value, fieldPath);
+        break;
+      case "maskField":
+        out.maskField = expectString(value, fieldPath);
+        break;
+      case "supportedModels":
+        if (!Array.isArray(value)) {
+          throw new Error(`Invalid config: ${fieldPath} must be an array of strings`);
+        }
+        out.supportedModels = value.map((m, i) => expectString(m, `${fieldPath}[${i}]`));
+        break;
+      case "timeoutMs":
+        if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+          throw new Error(`Invalid config: ${fieldPath} must be a positive integer`);
+        }
+        out.timeoutMs = value;
+        break;
+      case "maxImagesPerCall":
+        if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+          throw new Error(`Invalid config: ${fieldPath} must be a positive integer`);
+        }
+        out.maxImagesPerCall = value;
+        break;
+      case "keys":
+        if (!Array.isArray(value)) {
+          throw new Error(`Invalid config: ${fieldPath} must be an array`);
+        }
+        out.keys = value.map((k, i) => {
+          const keyPath = `${fieldPath}[${i}]`;
+          if (!isRecord(k)) throw new Error(`Invalid config: ${keyPath} must be { alias, key }`);
+          return {
+            alias: expectString(k.alias, `${keyPath}.alias`),
+            key: expectString(k.key, `${keyPath}.key`),
+          };
+        });
+        if (new Set(out.keys.map((k) => k.alias)).size !== out.keys.length) {
+          throw new Error(`Invalid config: ${fieldPath} has duplicate alias`);
+        }
+        break;
+      case "keyStrategy": {
+        const strategy = parseKeyStrategy(typeof value === "string" ? value : undefined);
+        if (!strategy) {
+          throw new Error(
+            `Invalid config: ${fieldPath} must be "round_robin" or "least_recently_failed"`,
+          );
+        }
+        out.keyStrategy = strategy;
+        break;
+      }
+      case "fallback":
+        if (!Array.isArray(value)) {
+          throw new Error(`Invalid config: ${fieldPath} must be an array`);
+        }
+        out.fallback = value.map((hop, i) => {
+          const hopPath = `${fieldPath}[${i}]`;
+          if (!isRecord(hop)) {
+            throw new Error(`Invalid config: ${hopPath} must be { provider, model? }`);
+          }
+          const adapter = getProvider(expectString(hop.provider, `${hopPath}.provider`));
+          if (!adapter) {
+            throw new Error(`Invalid config: ${hopPath}.provider is not a registered provider`);
+          }
+          return hop.model === undefined
+            ? { provider: adapter.name }
+            : { provider: adapter.name, model: expectString(hop.model, `${hopPath}.model`) };
+        });
+        break;
+      case "retry": {
+        if (!isRecord(value)) throw new Error(`Invalid config: ${fieldPath} must be an object`);
+        const retry: Partial<RetryPolicy> = {};
+        for (const [field, v] of Object.entries(value)) {
+          if (field !== "maxAttempts" && field !== "baseDelayMs" && field !== "maxDelayMs") {
+            throw new Error(`Invalid config: unknown field ${fieldPath}.${field}`);
+          }
+          if (
+            typeof v !== "number" || !Number.isInteger(v) || v < (field === "maxAttempts" ? 1 : 0)
+          ) {
+            throw new Error(`Invalid config: ${fieldPath}.${field} must be a non-negative integer`);
+          }
+          retry[field] = v;
+        }
+        out.retry = retry;
+        break;
+      }
+      default:
+        throw new Error(`Invalid config: unknown field ${fieldPath}`);
+    }
+  }
+  return out;
+}
+
+function validateAlias(raw: unknown, path: string): ModelAlias {
+  if (!isRecord(raw)) {
+    throw new Error(`Invalid config: ${path} must be { provider?, model, size? }`);
+  }
+
+  const alias: ModelAlias = { model: expectString(raw.model, `${path}.model`) };
+  for (const [key, value] of Object.entries(raw)) {
+    switch (key) {
+      case "model":
+        break;
+      case "provider": {
+        const adapter = getProvider(expectString(value, `${path}.provider`));
+        if (!adapter) {
+          throw new Error(`Invalid config: ${path}.provider is not a registered provider`);
+        }
+        alias.provider = adapter.name;
+        break;
+      }
+      case "size":
+        alias.size = expectSize(value, `${path}.size`);
+        break;
+      default:
+        throw new Error(`Invalid config: unknown field ${path}.${key}`);
+    }
+  }
+  return alias;
+}
+
+function validatePromptTemplate(raw: unknown, path: string): PromptTemplate {
+  if (!isRecord(raw)) {
+    throw new Error(`Invalid config: ${path} must be { prefix?, suffix?, template? }`);
+  }
+  const template: PromptTemplate = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (key !== "prefix" && key !== "suffix" && key !== "template") {
+      throw new Error(`Invalid config: unknown field ${path}.${key}`);
+    }
+    template[key] = expectString(value, `${path}.${key}`);
+  }
+  if (Object.keys(template).length === 0) {
+    throw new Error(`Invalid config: ${path} must set prefix, suffix or template`);
+  }
+  if (template.template && !template.template.includes(PROMPT_PLACEHOLDER)) {
+    throw new Error(`Invalid config: ${path}.template must contain ${PROMPT_PLACEHOLDER}`);
+  }
+  return template;
+}
+
+function validatePromptTemplates(raw: unknown): PromptTemplates {
+  if (!isRecord(raw)) throw new Error("Invalid config: prompts must be an object");
+  const prompts: PromptTemplates = {};
+  for (const [section, value] of Object.entries(raw)) {
+    if (section !== "models" && section !== "keys") {
+      throw new Error(`Invalid config: unknown field prompts.${section}`);
+    }
+    if (!isRecord(value)) throw new Error(`Invalid config: prompts.${section} must be an object`);
+    const templates: Record<string, PromptTemplate> = {};
+    for (const [name, template] of Object.entries(value)) {
+      // 错误信息中不出现客户端 Key，以序号代替
+      const label = section === "keys" ? `[${Object.keys(templates).length}]` : `.${name}`;
+      templates[name] = validatePromptTemplate(template, `prompts.${section}${label}`);
+    }
+    prompts[section] = templates;
+  }
+  return prompts;
+}
+
+/**
+ * 校验配置文件内容（不修改任何状态）
+ * - providers 的 key 必须是已注册渠道名（不区分大小写）
+ * - aliases 的 key 为别名名称，值为 { provider?, model, size? }
+ * - prompts.models 的 key 为模型名或别名（"*" 为默认），prompts.keys 的 key 为客户端 Key，
+ *   值为 { prefix?, suffix?, template? }（template 须包含 {{prompt}}）
+ */
+export function validateFileConfig(raw: unknown): FileConfig {
+  if (!isRecord(raw)) throw new Error("Invalid config: root must be a JSON object");
+
+  const providers: Record<string, ProviderOverride> = {};
+  const rawProviders = raw.providers ?? {};
+  if (!isRecord(rawProviders)) throw new Error("Invalid config: providers must be an object");
+
+  for (const [name, value] of Object.entries(rawProviders)) {
+    const adapter = getProvider(name);
+    if (!adapter) throw new Error(`Invalid config: unknown provider "${name}"`);
+    providers[adapter.name] = validateProviderOverride(value, `providers.${name}`);
+  }
+
+  const rawAliases = raw.aliases ?? {};
+  if (!isRecord(rawAliases)) throw new Error("Invalid config: aliases must be an object");
+  const aliases: Record<string, ModelAlias> = {};
+  for (const [name, value] of Object.entries(rawAliases)) {
+    aliases[name] = validateAlias(value, `aliases.${name}`);
+  }
+
+  const prompts = validatePromptTemplates(raw.prompts ?? {});
+
+  return { providers, aliases, prompts };
+}
+
+// 各渠道的内置配置快照：每次应用都基于快照叠加，删除文件中的字段即可恢复默认值
+const baselines = new Map<ProviderAdapter, ProviderConfig>();
+
+export function applyFileConfig(config: FileConfig, adapters: readonly ProviderAdapter[]): void {
+  for (const adapter of adapters) {
+    let baseline = baselines.get(adapter);
+    if (!baseline) {
+      baseline = structuredClone(adapter.config);
+      baselines.set(adapter, baseline);
+    }
+    const override = config.providers[adapter.name] ?? {};
+    Object.assign(adapter.config, structuredClone(baseline), override);
+    // 清除上一次文件配置中写过、而内置配置没有的可选字段
+    for (const key of Object.keys(adapter.config) as (keyof ProviderConfig)[]) {
+      if (!(key in baseline) && !(key in override)) delete adapter.config[key];
+    }
+  }
+  setFileModelAliases(config.aliases ?? {});
+  setFilePromptTemplates(config.prompts ?? {});
+}
+
+/**
+ * 读取、校验并应用配置文件
+ * @returns 文件不存在时返回 false
+ */
+export async function loadConfigFile(
+  path: string,
+  adapters: readonly ProviderAdapter[],
+): Promise<boolean> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return false;
+    throw err;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error(`Invalid config: ${path} is not valid JSON`);
+  }
+
+  const config = validateFileConfig(raw);
+  applyFileConfig(config, adapters);
+  info(
+    "Config",
+    `已加载配置文件 ${path}（覆盖渠道: ${Object.keys(config.providers).join(", ") || "无"}，别名: ${
+      Object.keys(config.aliases ?? {}).length
+    } 个，提示词模板: ${
+      Object.keys(config.prompts?.models ?? {}).length +
+      Object.keys(config.prompts?.keys ?? {}).length
+    } 个）`,
+  );
+  return true;
+}
+
+// 热加载：失败时保留当前配置
+export async function reloadConfigFile(
+  path: string,
+  adapters: readonly ProviderAdapter[],
+): Promise<void> {
+  try {
+    const loaded = await loadConfigFile(path, adapters);
+    if (!loaded) {
+      applyFileConfig({ providers: {} }, adapters);
+      info("Config", `配置文件 ${path} 不存在，已恢复内置配置`);
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    error("Config", `配置热加载失败，继续使用当前配置: ${message}`);
+  }
+}
+
+/**
+ * 监听配置文件所在目录（兼容编辑器/挂载卷“替换文件”式写入），变更后防抖重载
+ */
+export function watchConfigFile(path: string, adapters: readonly ProviderAdapter[]): void {
+  const slash = path.lastIndexOf("/");
+  const dir = slash >= 0 ? path.slice(0, slash) || "/" : ".";
+  const fileName = path.slice(slash + 1);
+
+  let watcher: Deno.FsWatcher;
+  try {
+    watcher = Deno.watchFs(dir);
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) {
+      debug("Config", `配置目录 ${dir} 不存在，跳过热加载监听`);
+      return;
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    error("Config", `无法监听配置目录 ${dir}: ${message}`);
+    return;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  (async () => {
+    for await (const event of watcher) {
+      if (!event.paths.some((p) => p.endsWith(`/${fileName}`) || p === fileName)) continue;
+      debug("Config", `配置文件变更: ${event.kind}`);
+      clearTimeout(timer);
+      timer = setTimeout(() => reloadConfigFile(path, adapters), 300);
+    }
+  })();
+}
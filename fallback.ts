@@ -0,0 +1,96 @@
+// ================= 跨渠道回退 =================
+// 渠道配置了 fallback 链时：主渠道因 5xx / 超时 / 429 / 网络错误失败后，依次尝试回退渠道。
+// 持有访问令牌（ACCESS_KEYS）的请求使用回退渠道的服务端 Key 池；其余请求只能回退到
+// 客户端 Key 恰好属于的渠道（直接转发客户端 Key）。没有可用 Key 的回退渠道会被跳过。
+
+import { hasKeyPool } from "./key_pool.ts";
+import { info, warn } from "./logger.ts";
+import {
+  generateImages,
+  type GenerateInput,
+  type GenerationResult,
+  getProvider,
+  getUnsupportedParams,
+  getUnsupportedParamsMode,
+  type ProviderAdapter,
+  supportsMask,
+} from "./provider_registry.ts";
+import { isUpstreamFault, RequestCancelledError } from "./upstream.ts";
+
+// 响应头：回退前失败过的渠道（逗号分隔）
+export const FALLBACK_HEADER = "X-ImgRouter-Fallback-From";
+
+export interface FallbackResult extends GenerationResult {
+  // 在成功渠道之前失败的渠道（未发生回退时为空）
+  fallbackFrom: string[];
+}
+
+export async function generateWithFallback(
+  primary: ProviderAdapter,
+  input: GenerateInput,
+): Promise<FallbackResult> {
+  const fallbackFrom: string[] = [];
+
+  let primaryError: unknown;
+  try {
+    const result = await generateImages(primary, input);
+    return { ...result, fallbackFrom };
+  } catch (err) {
+    const chain = primary.config.fallback ?? [];
+    if (chain.length === 0 || !isUpstreamFault(err)) throw err;
+    primaryError = err;
+    fallbackFrom.push(primary.name);
+  }
+
+  for (const hop of primary.config.fallback ?? []) {
+    const adapter = getProvider(hop.provider);
+    if (!adapter || adapter === primary) {
+      warn("Fallback", `${input.requestId} 跳过无效回退渠道: ${hop.provider}`);
+      continue;
+    }
+
+    if (input.mask && !supportsMask(adapter)) {
+      warn("Fallback", `${input.requestId} 跳过回退渠道 ${adapter.name}: 不支持蒙版`);
+      continue;
+    }
+
+    if (
+      getUnsupportedParamsMode(adapter) === "reject" &&
+      getUnsupportedParams(adapter, input.request).length > 0
+    ) {
+      warn("Fallback", `${input.requestId} 跳过回退渠道 ${adapter.name}: 不支持请求中的生成参数`);
+      continue;
+    }
+
+    // 持有访问令牌时使用服务端 Key 池；否则客户端 Key 必须属于该渠道（不能借用服务端 Key）
+    const usable = input.usePool ? hasKeyPool(adapter.config) : adapter.detect(input.apiKey);
+    if (!usable) {
+      warn("Fallback", `${input.requestId} 跳过回退渠道 ${adapter.name}: 没有可用的上游 Key`);
+      continue;
+    }
+
+    info(
+      "Fallback",
+      `${input.requestId} ${fallbackFrom.join(" → ")} 失败，回退到 ${adapter.name}${
+        hop.model ? `/${hop.model}` : ""
+      }`,
+    );
+
+    if (input.signal?.aborted) throw new RequestCancelledError(adapter.name);
+
+    try {
+      const result = await generateImages(adapter, {
+        ...input,
+        request: { ...input.request, model: hop.model },
+      });
+      return { ...result, fallbackFrom };
+    } catch (err) {
+      if (err instanceof RequestCancelledError) throw err;
+      // 回退渠道的失败细节已由 generateImages 记录，继续尝试下一跳
+      fallbackFrom.push(adapter.name);
+    }
+  }
+
+  // 全部失败：返回主渠道的错误（与客户端请求的渠道对应）
+  throw primaryError;
+}
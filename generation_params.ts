@@ -0,0 +1,131 @@
+// ================= 通用生成参数 =================
+// 从请求体读取 seed / negative_prompt / steps / guidance / watermark，按渠道配置的字段名
+// （ProviderConfig.paramFields）写入上游请求体。渠道不支持的参数按 UNSUPPORTED_PARAMS 处理：
+// - drop（默认）：忽略并记录日志
+// - reject：请求返回 400；回退时跳过不支持的渠道
+
+import type { ParamFields } from "./config.ts";
+
+export interface GenerationParams {
+  seed?: number;
+  negativePrompt?: string;
+  steps?: number;
+  guidance?: number;
+  watermark?: boolean;
+}
+
+export type GenerationParamName = keyof GenerationParams;
+
+export type UnsupportedParamsMode = "drop" | "reject";
+
+export type ParsedGenerationParams =
+  | { ok: true; value: GenerationParams }
+  | { ok: false; message: string };
+
+// 参数名 → 请求体中的字段名（依次尝试，兼容常见写法）
+const REQUEST_FIELDS: Record<GenerationParamName, string[]> = {
+  seed: ["seed"],
+  negativePrompt: ["negative_prompt"],
+  steps: ["steps", "num_inference_steps"],
+  guidance: ["guidance", "guidance_scale", "cfg_scale"],
+  watermark: ["watermark"],
+};
+
+export const GENERATION_PARAM_NAMES = Object.keys(REQUEST_FIELDS) as GenerationParamName[];
+
+// 日志与错误信息中使用请求体字段名
+export function paramFieldName(name: GenerationParamName): string {
+  return REQUEST_FIELDS[name][0]!;
+}
+
+function pick(raw: Record<string, unknown>, name: GenerationParamName): unknown {
+  for (const field of REQUEST_FIELDS[name]) {
+    if (raw[field] !== undefined && raw[field] !== null) return raw[field];
+  }
+  return undefined;
+}
+
+function isInteger(v: unknown, min: number, max: number): v is number {
+  return typeof v === "number" && Number.isInteger(v) && v >= min && v <= max;
+}
+
+/**
+ * 解析请求体中的通用生成参数（未出现的参数不写入结果）
+ */
+export function parseGenerationParams(raw: Record<string, unknown>): ParsedGenerationParams {
+  const params: GenerationParams = {};
+
+  const seed = pick(raw, "seed");
+  if (seed !== undefined) {
+    // -1 表示随机（与火山引擎一致）
+    if (!isInteger(seed, -1, 2147483647)) {
+      return { ok: false, message: "seed must be an integer between -1 and 2147483647" };
+    }
+    params.seed = seed;
+  }
+
+  const negativePrompt = pick(raw, "negativePrompt");
+  if (negativePrompt !== undefined) {
+    if (typeof negativePrompt !== "string") {
+      return { ok: false, message: "negative_prompt must be a string" };
+    }
+    if (negativePrompt.trim() !== "") params.negativePrompt = negativePrompt.trim();
+  }
+
+  const steps = pick(raw, "steps");
+  if (steps !== undefined) {
+    if (!isInteger(steps, 1, 150)) {
+      return { ok: false, message: "steps must be an integer between 1 and 150" };
+    }
+    params.steps = steps;
+  }
+
+  const guidance = pick(raw, "guidance");
+  if (guidance !== undefined) {
+    if (
+      typeof guidance !== "number" || !Number.isFinite(guidance) || guidance < 0 || guidance > 100
+    ) {
+      return { ok: false, message: "guidance must be a number between 0 and 100" };
+    }
+    params.guidance = guidance;
+  }
+
+  const watermark = pick(raw, "watermark");
+  if (watermark !== undefined) {
+    if (typeof watermark !== "boolean") {
+      return { ok: false, message: "watermark must be a boolean" };
+    }
+    params.watermark = watermark;
+  }
+
+  return { ok: true, value: params };
+}
+
+export function parseUnsupportedParamsMode(
+  value: string | undefined,
+  fallback: UnsupportedParamsMode,
+): UnsupportedParamsMode {
+  const v = (value ?? "").trim().toLowerCase();
+  if (v === "drop") return "drop";
+  if (v === "reject") return "reject";
+  return fallback;
+}
+
+/**
+ * 按渠道字段名映射参数
+ * @returns fields 为写入上游请求体的字段，unsupported 为渠道不支持的参数
+ */
+export function mapGenerationParams(
+  params: GenerationParams | undefined,
+  fields: ParamFields | undefined,
+): { fields: Record<string, unknown>; unsupported: GenerationParamName[] } {
+  const out: Record<string, unknown> = {};
+  const unsupported: GenerationParamName[] = [];
+  for (const [name, value] of Object.entries(params ?? {}) as [GenerationParamName, unknown][]) {
+    if (value === undefined) continue;
+    const field = fields?.[name];
+    if (field) out[field] = value;
+    else unsupported.push(name);
+  }
+  return { fields: out, unsupported };
+}
@@ -40,6 +40,7 @@ export async function prepareImagesForUpstream(
   const out: string[] = [];
   for (const url of imageUrls) {
     if (typeof url !== "string" || url.trim() === "") continue;
+    options.signal?.throwIfAborted();
     const resolved = await resolveImage(url, options);
     out.push(base64Format === "raw_base64" ? resolved.base64 : resolved.dataUrl);
   }
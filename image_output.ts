@@ -0,0 +1,92 @@
+// ================= 生成结果输出 =================
+// 上游返回的图片 URL（尤其是火山引擎 TOS 签名链接）通常数小时后过期，聊天记录中的图片随之失效。
+// b64_json 模式下由服务端下载生成结果并以 dataURL 返回（复用 resolveImage 的大小限制与超时）；
+// url 模式下开启了存储（IMAGE_STORAGE）时转存生成结果，返回 /files/:id 的稳定链接。
+
+import { buildFileUrl, type ImageStorage, newFileId } from "./image_storage.ts";
+import { resolveImage, type ResolveImageOptions } from "./image_resolver.ts";
+import { warn } from "./logger.ts";
+import type { GeneratedImage } from "./provider_registry.ts";
+
+// url：原样返回上游结果；b64_json：下载后内联返回
+export type ImageOutputMode = "url" | "b64_json";
+
+export function parseImageOutputMode(
+  value: unknown,
+  fallback: ImageOutputMode,
+): ImageOutputMode {
+  const v = (typeof value === "string" ? value : "").trim().toLowerCase();
+  if (v === "url") return "url";
+  if (v === "b64_json") return "b64_json";
+  return fallback;
+}
+
+/**
+ * 下载只有 URL 的生成结果，b64_json 写为 dataURL（已有 b64_json 的图片保持不变）
+ * - 下载失败时抛错（客户端明确要求了 base64，不静默返回即将过期的 URL）
+ */
+export async function inlineGeneratedImages(
+  images: GeneratedImage[],
+  options: ResolveImageOptions,
+): Promise<GeneratedImage[]> {
+  const out: GeneratedImage[] = [];
+  for (const img of images) {
+    if (img.b64_json || !img.url) {
+      out.push(img);
+      continue;
+    }
+    options.signal?.throwIfAborted();
+    let dataUrl: string;
+    try {
+      dataUrl = (await resolveImage(img.url, options)).dataUrl;
+    } catch (err) {
+      if (options.signal?.aborted) throw err;
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(`Failed to download generated image: ${message}`);
+    }
+    out.push({
+      b64_json: dataUrl,
+      ...(img.revised_prompt ? { revised_prompt: img.revised_prompt } : {}),
+    });
+  }
+  return out;
+}
+
+/**
+ * 转存生成结果（URL 下载 / base64 解码后写入存储），返回 {baseUrl}/files/:id 链接
+ * - 单张转存失败时保留上游结果并记录警告（url 模式下上游链接仍可暂时使用）
+ */
+export async function rehostGeneratedImages(
+  images: GeneratedImage[],
+  storage: ImageStorage,
+  options: ResolveImageOptions & { baseUrl: string },
+): Promise<GeneratedImage[]> {
+  const out: GeneratedImage[] = [];
+  for (const img of images) {
+    const source = img.b64_json
+      ? (img.b64_json.startsWith("data:") ? img.b64_json : `data:image/png;base64,${img.b64_json}`)
+      : img.url;
+    if (!source) {
+      out.push(img);
+      continue;
+    }
+    options.signal?.throwIfAborted();
+    try {
+      const resolved = await resolveImage(source, options);
+      const id = newFileId(resolved.mime);
+      await storage.put(id, resolved.bytes, resolved.mime);
+      out.push({
+        url: await buildFileUrl(options.baseUrl, id),
+        ...(img.revised_prompt ? { revised_prompt: img.revised_prompt } : {}),
+      });
+    } catch (err) {
+      if (options.signal?.aborted) throw err;
+      warn(
+        "Storage",
+        `转存失败，返回上游结果: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      out.push(img);
+    }
+  }
+  return out;
+}
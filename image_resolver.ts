@@ -1,4 +1,5 @@
 import { decodeBase64, encodeBase64 } from "./base64.ts";
+import { type ImageFormat, type SniffedImage, sniffImage } from "./image_sniff.ts";
 
 export interface ResolveImageOptions {
   timeoutMs?: number;
@@ -12,11 +13,27 @@ export interface ResolveImageOptions {
    * 依赖注入：便于测试 mock
    */
   fetchFn?: typeof fetch;
+  /**
+   * 客户端断开时中止拉取
+   */
+  signal?: AbortSignal;
+  /**
+   * 允许的真实格式（按文件头识别，默认不限制）
+   */
+  allowedFormats?: readonly ImageFormat[];
+  /**
+   * 宽/高上限（像素，默认不限制；无法读取尺寸时不校验）
+   */
+  maxDimension?: number;
 }
 
 export interface ResolvedImage {
   url: string;
+  // 按文件头识别的真实 mime（与 Content-Type / dataURL 声明不一致时以此为准）
   mime: string;
+  format: ImageFormat;
+  width?: number;
+  height?: number;
   bytes: Uint8Array;
   base64: string;
   dataUrl: string;
@@ -114,6 +131,30 @@ function parseDataUrlToBytes(dataUrl: string): { mime: string; bytes: Uint8Array
   return { mime, bytes };
 }
 
+// 按文件头校验图片并返回真实格式与尺寸
+function inspectImageBytes(
+  bytes: Uint8Array,
+  declaredMime: string,
+  options: ResolveImageOptions,
+): SniffedImage {
+  const sniffed = sniffImage(bytes);
+  if (!sniffed) {
+    throw new Error(`Unsupported image format (declared ${declaredMime})`);
+  }
+  if (options.allowedFormats && !options.allowedFormats.includes(sniffed.format)) {
+    const allowed = options.allowedFormats.join(", ");
+    throw new Error(`Image format ${sniffed.format} is not allowed (allowed: ${allowed})`);
+  }
+  const { width, height } = sniffed;
+  if (
+    options.maxDimension && width !== undefined && height !== undefined &&
+    (width > options.maxDimension || height > options.maxDimension)
+  ) {
+    throw new Error(`Image too large: ${width}x${height} exceeds ${options.maxDimension}px`);
+  }
+  return sniffed;
+}
+
 async function readResponseBytesWithLimit(resp: Response, maxBytes: number): Promise<Uint8Array> {
   const lenHeader = resp.headers.get("content-length");
   if (lenHeader) {
@@ -178,9 +219,10 @@ export async function resolveImage(url: string, options: ResolveImageOptions = {
     if (bytes.byteLength > maxBytes) {
       throw new Error(`Image too large: ${bytes.byteLength} > ${maxBytes}`);
     }
+    const image = inspectImageBytes(bytes, mime, options);
     const base64 = encodeBase64(bytes);
-    const dataUrl = `data:${mime};base64,${base64}`;
-    return { url, mime, bytes, base64, dataUrl, size: bytes.byteLength };
+    const dataUrl = `data:${image.mime};base64,${base64}`;
+    return { url, ...image, bytes, base64, dataUrl, size: bytes.byteLength };
   }
 
   let parsed: URL;
@@ -194,12 +236,15 @@ export async function resolveImage(url: string, options: ResolveImageOptions = {
 
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const signal = options.signal
+    ? AbortSignal.any([options.signal, controller.signal])
+    : controller.signal;
 
   try {
     const resp = await fetchFn(parsed.toString(), {
       method: "GET",
       redirect: "follow",
-      signal: controller.signal,
+      signal,
       headers: {
         "Accept": "image/*",
       },
@@ -216,9 +261,10 @@ export async function resolveImage(url: string, options: ResolveImageOptions = {
     }
 
     const bytes = await readResponseBytesWithLimit(resp, maxBytes);
+    const image = inspectImageBytes(bytes, ct, options);
     const base64 = encodeBase64(bytes);
-    const dataUrl = `data:${ct};base64,${base64}`;
-    return { url, mime: ct, bytes, base64, dataUrl, size: bytes.byteLength };
+    const dataUrl = `data:${image.mime};base64,${base64}`;
+    return { url, ...image, bytes, base64, dataUrl, size: bytes.byteLength };
   } finally {
     clearTimeout(timeoutId);
   }
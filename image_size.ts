@@ -0,0 +1,183 @@
+// ================= 尺寸协商 =================
+// 客户端的 size 统一解析后按渠道约束（单边范围 / 像素预算 / 宽高比 / 倍数 / 固定尺寸列表）
+// 吸附到最接近的合法尺寸，上游只会收到 "WxH"。支持的写法：
+// - "1024x1536"：精确尺寸（OpenAI 的 "1024x1024" / "1792x1024" 等同属此类）
+// - "16:9"：宽高比，总像素沿用渠道默认尺寸
+// - "1K" / "2K" / "4K"：方图档位（1024 / 2048 / 4096）
+// - "auto"：渠道默认尺寸
+
+import type { SizeLimits } from "./config.ts";
+
+export type SizeSpec =
+  | { kind: "exact"; width: number; height: number }
+  | { kind: "ratio"; width: number; height: number }
+  | { kind: "tier"; side: number }
+  | { kind: "auto" };
+
+export interface NegotiatedSize {
+  width: number;
+  height: number;
+  // 上游使用的尺寸（"WxH"）
+  size: string;
+  // 吸附后与请求的尺寸不一致
+  adjusted: boolean;
+}
+
+// 解析 size；格式不合法时返回 undefined
+export function parseSizeSpec(value: string): SizeSpec | undefined {
+  const v = value.trim().toLowerCase();
+  if (v === "auto") return { kind: "auto" };
+
+  const exact = v.match(/^(\d{1,5})\s*[x×*]\s*(\d{1,5})$/);
+  if (exact) {
+    const width = Number(exact[1]), height = Number(exact[2]);
+    return width > 0 && height > 0 ? { kind: "exact", width, height } : undefined;
+  }
+
+  const ratio = v.match(/^(\d{1,3}(?:\.\d+)?)\s*:\s*(\d{1,3}(?:\.\d+)?)$/);
+  if (ratio) {
+    const width = Number(ratio[1]), height = Number(ratio[2]);
+    return width > 0 && height > 0 ? { kind: "ratio", width, height } : undefined;
+  }
+
+  const tier = v.match(/^([124])k$/);
+  if (tier) return { kind: "tier", side: Number(tier[1]) * 1024 };
+
+  return undefined;
+}
+
+function toDimensions(
+  spec: SizeSpec,
+  base: { width: number; height: number },
+): { width: number; height: number } {
+  switch (spec.kind) {
+    case "exact":
+      return { width: spec.width, height: spec.height };
+    case "tier":
+      return { width: spec.side, height: spec.side };
+    case "ratio": {
+      // 保持总像素不变，仅改变宽高比
+      const pixels = base.width * base.height;
+      const r = spec.width / spec.height;
+      return { width: Math.sqrt(pixels * r), height: Math.sqrt(pixels / r) };
+    }
+    case "auto":
+      return base;
+  }
+}
+
+// 固定尺寸列表：先比较宽高比，再比较总像素（均按对数距离）
+function nearestPreset(
+  presets: { width: number; height: number }[],
+  target: { width: number; height: number },
+): { width: number; height: number } {
+  const aspect = Math.log(target.width / target.height);
+  const area = Math.log(target.width * target.height);
+  const score = (p: { width: number; height: number }): [number, number] => [
+    Math.abs(Math.log(p.width / p.height) - aspect),
+    Math.abs(Math.log(p.width * p.height) - area),
+  ];
+  return presets.reduce((best, p) => {
+    const [a, b] = score(p), [bestA, bestB] = score(best);
+    return a < bestA - 1e-9 || (Math.abs(a - bestA) <= 1e-9 && b < bestB) ? p : best;
+  });
+}
+
+function fitToLimits(
+  target: { width: number; height: number },
+  limits: SizeLimits,
+): { width: number; height: number } {
+  let { width, height } = target;
+
+  // 宽高比：超出上限时保持总像素，收窄为上限比例
+  if (limits.maxAspectRatio && limits.maxAspectRatio >= 1) {
+    const r = width / height;
+    const clamped = Math.min(Math.max(r, 1 / limits.maxAspectRatio), limits.maxAspectRatio);
+    if (clamped !== r) {
+      const pixels = width * height;
+      width = Math.sqrt(pixels * clamped);
+      height = Math.sqrt(pixels / clamped);
+    }
+  }
+
+  // 像素预算：等比缩放
+  const pixels = width * height;
+  if (limits.maxPixels && pixels > limits.maxPixels) {
+    const k = Math.sqrt(limits.maxPixels / pixels);
+    width *= k;
+    height *= k;
+  } else if (limits.minPixels && pixels < limits.minPixels) {
+    const k = Math.sqrt(limits.minPixels / pixels);
+    width *= k;
+    height *= k;
+  }
+
+  // 单边范围：先按长边等比缩小，再按短边等比放大
+  if (limits.maxSide && Math.max(width, height) > limits.maxSide) {
+    const k = limits.maxSide / Math.max(width, height);
+    width *= k;
+    height *= k;
+  }
+  if (limits.minSide && Math.min(width, height) < limits.minSide) {
+    const k = limits.minSide / Math.min(width, height);
+    width *= k;
+    height *= k;
+  }
+
+  // 取整到倍数，并保证仍在单边范围内（范围冲突时以上限为准）
+  const step = Math.max(1, limits.multipleOf ?? 1);
+  const lo = Math.ceil((limits.minSide ?? step) / step) * step;
+  const hi = limits.maxSide ? Math.max(step, Math.floor(limits.maxSide / step) * step) : Infinity;
+  const snap = (v: number): number => Math.min(Math.max(Math.round(v / step) * step, lo), hi);
+  width = snap(width);
+  height = snap(height);
+
+  // 取整后仍超出像素预算时，逐步调整长边 / 短边
+  if (limits.maxPixels) {
+    while (width * height > limits.maxPixels && Math.max(width, height) - step >= lo) {
+      if (width >= height) width -= step;
+      else height -= step;
+    }
+  }
+  if (limits.minPixels) {
+    while (width * height < limits.minPixels && Math.min(width, height) + step <= hi) {
+      if (width <= height) width += step;
+      else height += step;
+    }
+  }
+  return { width, height };
+}
+
+/**
+ * 按渠道约束协商实际尺寸
+ * - requested 为空或 "auto" 时使用渠道默认尺寸（默认尺寸同样经过约束校正）
+ * - requested 格式不合法时抛错（请求入口已校验，见 main.ts 的 routeRequest）
+ */
+export function negotiateSize(
+  requested: string | undefined,
+  defaultSize: string,
+  limits: SizeLimits = {},
+): NegotiatedSize {
+  const defaultSpec = parseSizeSpec(defaultSize);
+  const base = defaultSpec && defaultSpec.kind !== "auto" && defaultSpec.kind !== "ratio"
+    ? toDimensions(defaultSpec, { width: 1024, height: 1024 })
+    : { width: 1024, height: 1024 };
+
+  const spec = requested?.trim() ? parseSizeSpec(requested) : { kind: "auto" as const };
+  if (!spec) throw new Error(`Invalid size: ${requested}`);
+  const target = toDimensions(spec, base);
+
+  const presets = (limits.presets ?? [])
+    .map(parseSizeSpec)
+    .filter((p): p is Extract<SizeSpec, { kind: "exact" }> => p?.kind === "exact");
+  const { width, height } = presets.length > 0
+    ? nearestPreset(presets, target)
+    : fitToLimits(target, limits);
+
+  return {
+    width,
+    height,
+    size: `${width}x${height}`,
+    adjusted: spec.kind === "exact" && (width !== spec.width || height !== spec.height),
+  };
+}
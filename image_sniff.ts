@@ -0,0 +1,156 @@
+// ================= 图片格式识别 =================
+// 按文件头（magic bytes）识别真实格式并读取宽高，不信任 Content-Type / dataURL 中声明的 mime
+// （例如标成 image/png 的 HTML 错误页、扩展名错误的 WebP）。只解析文件头，不解码像素。
+
+export type ImageFormat = "png" | "jpeg" | "webp" | "gif" | "bmp";
+
+export const IMAGE_FORMATS: readonly ImageFormat[] = ["png", "jpeg", "webp", "gif", "bmp"];
+
+export const IMAGE_FORMAT_MIME: Record<ImageFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+  bmp: "image/bmp",
+};
+
+export interface SniffedImage {
+  format: ImageFormat;
+  mime: string;
+  // 文件头不完整或不含尺寸信息时为 undefined
+  width?: number;
+  height?: number;
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+function u16be(b: Uint8Array, o: number): number {
+  return (b[o]! << 8) | b[o + 1]!;
+}
+
+function u16le(b: Uint8Array, o: number): number {
+  return b[o]! | (b[o + 1]! << 8);
+}
+
+function u24le(b: Uint8Array, o: number): number {
+  return b[o]! | (b[o + 1]! << 8) | (b[o + 2]! << 16);
+}
+
+function u32be(b: Uint8Array, o: number): number {
+  return ((b[o]! << 24) | (b[o + 1]! << 16) | (b[o + 2]! << 8) | b[o + 3]!) >>> 0;
+}
+
+function i32le(b: Uint8Array, o: number): number {
+  return b[o]! | (b[o + 1]! << 8) | (b[o + 2]! << 16) | (b[o + 3]! << 24);
+}
+
+function withSize(
+  format: ImageFormat,
+  size?: { width: number; height: number },
+): SniffedImage {
+  const out: SniffedImage = { format, mime: IMAGE_FORMAT_MIME[format] };
+  if (size && size.width > 0 && size.height > 0) {
+    out.width = size.width;
+    out.height = size.height;
+  }
+  return out;
+}
+
+// PNG：IHDR 固定位于签名之后
+function pngSize(b: Uint8Array): { width: number; height: number } | undefined {
+  if (b.length < 24 || ascii(b, 12, 4) !== "IHDR") return undefined;
+  return { width: u32be(b, 16), height: u32be(b, 20) };
+}
+
+// JPEG：逐段扫描到 SOFn（帧头）读取尺寸
+function jpegSize(b: Uint8Array): { width: number; height: number } | undefined {
+  let o = 2;
+  while (o + 9 < b.length) {
+    if (b[o] !== 0xff) return undefined;
+    const marker = b[o + 1]!;
+    // 填充字节
+    if (marker === 0xff) {
+      o++;
+      continue;
+    }
+    // 无长度字段的独立标记（RSTn / SOI / TEM）
+    if ((marker >= 0xd0 && marker <= 0xd8) || marker === 0x01) {
+      o += 2;
+      continue;
+    }
+    // SOF0..SOF15（排除 DHT / JPG / DAC）
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: u16be(b, o + 5), width: u16be(b, o + 7) };
+    }
+    // 图像数据开始或结束仍未找到帧头
+    if (marker === 0xda || marker === 0xd9) return undefined;
+    o += 2 + u16be(b, o + 2);
+  }
+  return undefined;
+}
+
+// WebP：VP8（有损）/ VP8L（无损）/ VP8X（扩展）三种首块
+function webpSize(b: Uint8Array): { width: number; height: number } | undefined {
+  if (b.length < 30) return undefined;
+  const chunk = ascii(b, 12, 4);
+  if (chunk === "VP8 ") {
+    if (b[23] !== 0x9d || b[24] !== 0x01 || b[25] !== 0x2a) return undefined;
+    return { width: u16le(b, 26) & 0x3fff, height: u16le(b, 28) & 0x3fff };
+  }
+  if (chunk === "VP8L") {
+    if (b[20] !== 0x2f) return undefined;
+    return {
+      width: 1 + (((b[22]! & 0x3f) << 8) | b[21]!),
+      height: 1 + (((b[24]! & 0x0f) << 10) | (b[23]! << 2) | ((b[22]! & 0xc0) >> 6)),
+    };
+  }
+  if (chunk === "VP8X") {
+    return { width: 1 + u24le(b, 24), height: 1 + u24le(b, 27) };
+  }
+  return undefined;
+}
+
+// BMP：BITMAPCOREHEADER（12 字节）为 16 位宽高，其余 DIB 头为 32 位（高度为负表示自上而下）
+function bmpSize(b: Uint8Array): { width: number; height: number } | undefined {
+  if (b.length < 26) return undefined;
+  if (i32le(b, 14) === 12) return { width: u16le(b, 18), height: u16le(b, 20) };
+  return { width: Math.abs(i32le(b, 18)), height: Math.abs(i32le(b, 22)) };
+}
+
+/**
+ * 识别图片真实格式与尺寸
+ * @returns 不是支持的图片格式时返回 undefined
+ */
+export function sniffImage(bytes: Uint8Array): SniffedImage | undefined {
+  const b = bytes;
+  if (b.length >= 8 && u32be(b, 0) === 0x89504e47 && u32be(b, 4) === 0x0d0a1a0a) {
+    return withSize("png", pngSize(b));
+  }
+  if (b.length >= 3 && b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff) {
+    return withSize("jpeg", jpegSize(b));
+  }
+  if (b.length >= 12 && ascii(b, 0, 4) === "RIFF" && ascii(b, 8, 4) === "WEBP") {
+    return withSize("webp", webpSize(b));
+  }
+  if (b.length >= 6 && (ascii(b, 0, 6) === "GIF87a" || ascii(b, 0, 6) === "GIF89a")) {
+    return withSize(
+      "gif",
+      b.length >= 10 ? { width: u16le(b, 6), height: u16le(b, 8) } : undefined,
+    );
+  }
+  if (b.length >= 2 && b[0] === 0x42 && b[1] === 0x4d) {
+    return withSize("bmp", bmpSize(b));
+  }
+  return undefined;
+}
+
+// 解析格式列表（逗号分隔，jpg 视为 jpeg）；为空或无有效项时返回 undefined（不限制）
+export function parseImageFormats(value: string | undefined): ImageFormat[] | undefined {
+  const formats = (value ?? "").split(",")
+    .map((v) => v.trim().toLowerCase())
+    .map((v) => (v === "jpg" ? "jpeg" : v))
+    .filter((v): v is ImageFormat => (IMAGE_FORMATS as readonly string[]).includes(v));
+  return formats.length > 0 ? [...new Set(formats)] : undefined;
+}
@@ -0,0 +1,329 @@
+// ================= 生成结果存储（转存） =================
+// 开启后生成结果转存到本地目录或 S3 兼容存储（如 MinIO），返回由 GET /files/:id 提供的稳定链接，
+// 替代数小时后过期的上游链接。
+// - IMAGE_STORAGE=fs：写入 IMAGE_STORAGE_DIR（默认 ./data/images，docker-compose 已挂载 ./data）
+// - IMAGE_STORAGE=s3：S3_ENDPOINT / S3_BUCKET / S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY（路径风格 + SigV4）
+// - 设置 FILE_URL_SECRET 后链接带 HMAC 签名与过期时间（FILE_URL_TTL_SECONDS），否则为永久链接
+
+import { encodeBase64 } from "./base64.ts";
+import { getEnvInt } from "./config.ts";
+
+export interface StoredFile {
+  bytes: Uint8Array<ArrayBuffer>;
+  mime: string;
+}
+
+export interface ImageStorage {
+  // 存储类型（日志使用）
+  name: string;
+  put(id: string, bytes: Uint8Array, mime: string): Promise<void>;
+  // 不存在时返回 undefined
+  get(id: string): Promise<StoredFile | undefined>;
+}
+
+export interface S3StorageConfig {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // 对象键前缀（如 "imgrouter/"）
+  prefix?: string;
+  // 依赖注入：便于测试 mock
+  fetchFn?: typeof fetch;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/bmp": "bmp",
+};
+
+// 文件 ID：img_<32 位十六进制>.<扩展名>（也用于 /files/:id 路由匹配）
+export const FILE_ID_REGEX = /^img_[0-9a-f]{32}\.(png|jpg|webp|gif|bmp)$/;
+
+export function newFileId(mime: string): string {
+  const ext = EXTENSIONS[mime] ?? "png";
+  return `img_${crypto.randomUUID().replaceAll("-", "")}.${ext}`;
+}
+
+export function mimeFromFileId(id: string): string {
+  const ext = id.slice(id.lastIndexOf(".") + 1);
+  return Object.entries(EXTENSIONS).find(([, e]) => e === ext)?.[0] ?? "application/octet-stream";
+}
+
+// ================= 本地目录 =================
+
+export function createFileSystemStorage(dir: string): ImageStorage {
+  const root = dir.replace(/\/+$/, "");
+  let ready = false;
+
+  return {
+    name: `fs (${root})`,
+
+    async put(id, bytes) {
+      if (!ready) {
+        await Deno.mkdir(root, { recursive: true });
+        ready = true;
+      }
+      await Deno.writeFile(`${root}/${id}`, bytes);
+    },
+
+    async get(id) {
+      try {
+        return { bytes: await Deno.readFile(`${root}/${id}`), mime: mimeFromFileId(id) };
+      } catch (err) {
+        if (err instanceof Deno.errors.NotFound) return undefined;
+        throw err;
+      }
+    },
+  };
+}
+
+// ================= S3 兼容存储 =================
+
+const encoder = new TextEncoder();
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function sha256Hex(data: Uint8Array<ArrayBuffer> | string): Promise<string> {
+  const bytes = typeof data === "string" ? encoder.encode(data) : data;
+  return toHex(await crypto.subtle.digest("SHA-256", bytes));
+}
+
+async function hmac(
+  key: Uint8Array<ArrayBuffer> | ArrayBuffer,
+  data: string,
+): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    key,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return await crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(data));
+}
+
+/**
+ * AWS Signature V4 请求头（host / x-amz-date / x-amz-content-sha256 / Authorization）
+ * - url.pathname 需已按 RFC 3986 编码
+ */
+export async function signS3Request(
+  method: string,
+  url: URL,
+  payloadHash: string,
+  config: Pick<S3StorageConfig, "region" | "accessKeyId" | "secretAccessKey">,
+  now: Date = new Date(),
+): Promise<Record<string, string>> {
+  const amzDate = now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${config.region}/s3/aws4_request`;
+  const signedHeaders = "host;x-amz-content-sha256;x-amz-date";
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    "",
+    `host:${url.host}`,
+    `x-amz-content-sha256:${payloadHash}`,
+    `x-amz-date:${amzDate}`,
+    "",
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    await sha256Hex(canonicalRequest),
+  ].join("\n");
+
+  let key: ArrayBuffer = await hmac(encoder.encode(`AWS4${config.secretAccessKey}`), date);
+  for (const part of [config.region, "s3", "aws4_request"]) key = await hmac(key, part);
+  const signature = toHex(await hmac(key, stringToSign));
+
+  return {
+    "x-amz-date": amzDate,
+    "x-amz-content-sha256": payloadHash,
+    "Authorization": `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+export function createS3Storage(config: S3StorageConfig): ImageStorage {
+  const fetchFn = config.fetchFn ?? fetch;
+  const endpoint = config.endpoint.replace(/\/+$/, "");
+  // 路径风格：{endpoint}/{bucket}/{prefix}{id}（兼容 MinIO 等不支持虚拟主机风格的服务）
+  const objectUrl = (id: string): URL =>
+    new URL(
+      `${endpoint}/${encodeURIComponent(config.bucket)}/${
+        `${config.prefix ?? ""}${id}`.split("/").map(encodeURIComponent).join("/")
+      }`,
+    );
+
+  return {
+    name: `s3 (${endpoint}/${config.bucket})`,
+
+    async put(id, bytes, mime) {
+      const url = objectUrl(id);
+      const body = new Uint8Array(bytes);
+      const headers = await signS3Request("PUT", url, await sha256Hex(body), config);
+      const response = await fetchFn(url, {
+        method: "PUT",
+        headers: { ...headers, "Content-Type": mime },
+        body,
+      });
+      if (!response.ok) {
+        throw new Error(`S3 PUT failed (${response.status}): ${await response.text()}`);
+      }
+      await response.body?.cancel();
+    },
+
+    async get(id) {
+      const url = objectUrl(id);
+      const headers = await signS3Request("GET", url, await sha256Hex(""), config);
+      const response = await fetchFn(url, { method: "GET", headers });
+      if (response.status === 404) {
+        await response.body?.cancel();
+        return undefined;
+      }
+      if (!response.ok) {
+        throw new Error(`S3 GET failed (${response.status}): ${await response.text()}`);
+      }
+      return {
+        bytes: new Uint8Array(await response.arrayBuffer()),
+        mime: response.headers.get("content-type") ?? mimeFromFileId(id),
+      };
+    },
+  };
+}
+
+// ================= 按环境变量创建 =================
+
+let storage: ImageStorage | undefined;
+let loaded = false;
+
+/**
+ * 当前存储（未开启时返回 undefined）；首次调用时按环境变量创建
+ * - 配置不完整时抛错（启动阶段调用，直接退出）
+ */
+export function getImageStorage(): ImageStorage | undefined {
+  if (loaded) return storage;
+  const kind = (Deno.env.get("IMAGE_STORAGE") ?? "").trim().toLowerCase();
+  if (kind === "fs") {
+    storage = createFileSystemStorage(Deno.env.get("IMAGE_STORAGE_DIR")?.trim() || "./data/images");
+  } else if (kind === "s3") {
+    const required = (name: string): string => {
+      const v = Deno.env.get(name)?.trim();
+      if (!v) throw new Error(`IMAGE_STORAGE=s3 requires ${name}`);
+      return v;
+    };
+    storage = createS3Storage({
+      endpoint: required("S3_ENDPOINT"),
+      bucket: required("S3_BUCKET"),
+      region: Deno.env.get("S3_REGION")?.trim() || "us-east-1",
+      accessKeyId: required("S3_ACCESS_KEY_ID"),
+      secretAccessKey: required("S3_SECRET_ACCESS_KEY"),
+      prefix: Deno.env.get("S3_PREFIX")?.trim() || undefined,
+    });
+  } else if (kind !== "" && kind !== "off") {
+    throw new Error(`Invalid IMAGE_STORAGE: ${kind} (expected fs / s3 / off)`);
+  }
+  loaded = true;
+  return storage;
+}
+
+// ================= 签名链接 =================
+
+function getUrlSecret(): string | undefined {
+  return Deno.env.get("FILE_URL_SECRET")?.trim() || undefined;
+}
+
+async function signFile(secret: string, id: string, expires: number): Promise<string> {
+  return toHex(await hmac(encoder.encode(secret), `${id}:${expires}`));
+}
+
+// 定长比较（耗时与首个不同字符的位置无关，避免通过响应时间逐位猜出签名）
+function timingSafeEqual(a: string, b: string): boolean {
+  const x = encoder.encode(a), y = encoder.encode(b);
+  let diff = x.length ^ y.length;
+  for (let i = 0; i < x.length; i++) diff |= x[i]! ^ (y[i] ?? 0);
+  return diff === 0;
+}
+
+/**
+ * 文件链接：{baseUrl}/files/{id}，设置了 FILE_URL_SECRET 时追加 expires 与 sig
+ */
+export async function buildFileUrl(
+  baseUrl: string,
+  id: string,
+  now: number = Date.now(),
+): Promise<string> {
+  const url = `${baseUrl.replace(/\/+$/, "")}/files/${id}`;
+  const secret = getUrlSecret();
+  if (!secret) return url;
+  const expires = Math.floor(now / 1000) + getEnvInt("FILE_URL_TTL_SECONDS", 7 * 24 * 3600);
+  return `${url}?expires=${expires}&sig=${await signFile(secret, id, expires)}`;
+}
+
+export type FileUrlCheck =
+  | { ok: true; expiresAt?: number }
+  | { ok: false; status: number; message: string };
+
+// 校验文件链接签名（未设置 FILE_URL_SECRET 时不校验）
+export async function verifyFileUrl(
+  id: string,
+  params: URLSearchParams,
+  now: number = Date.now(),
+): Promise<FileUrlCheck> {
+  const secret = getUrlSecret();
+  if (!secret) return { ok: true };
+
+  const expires = Number.parseInt(params.get("expires") ?? "", 10);
+  const sig = params.get("sig") ?? "";
+  if (!Number.isFinite(expires) || !timingSafeEqual(sig, await signFile(secret, id, expires))) {
+    return { ok: false, status: 403, message: "Invalid file signature" };
+  }
+  if (expires * 1000 <= now) return { ok: false, status: 410, message: "File link expired" };
+  return { ok: true, expiresAt: expires };
+}
+
+// ================= 本服务链接直读 =================
+
+/**
+ * 读取本服务转存文件的链接（{baseUrl}/files/:id）并转为 dataURL，不经网络拉取
+ * （PUBLIC_BASE_URL 为本机或内网地址时，网络拉取会被私网地址拦截；多轮编辑会引用上一轮的转存链接）
+ * @returns 不是本服务的文件链接或未开启存储时返回 undefined
+ * @throws 签名无效 / 已过期 / 文件不存在时
+ */
+export async function readStoredFileAsDataUrl(
+  url: string,
+  baseUrl: string,
+  storage: ImageStorage | undefined = getImageStorage(),
+  now: number = Date.now(),
+): Promise<string | undefined> {
+  if (!storage) return undefined;
+
+  let parsed: URL, base: URL;
+  try {
+    parsed = new URL(url);
+    base = new URL(baseUrl);
+  } catch {
+    return undefined;
+  }
+  const prefix = `${base.pathname.replace(/\/+$/, "")}/files/`;
+  if (parsed.origin !== base.origin || !parsed.pathname.startsWith(prefix)) return undefined;
+  const id = parsed.pathname.slice(prefix.length);
+  if (!FILE_ID_REGEX.test(id)) return undefined;
+
+  const check = await verifyFileUrl(id, parsed.searchParams, now);
+  if (!check.ok) throw new Error(`Stored image ${id}: ${check.message}`);
+  const file = await storage.get(id);
+  if (!file) throw new Error(`Stored image ${id}: not found`);
+  return `data:${file.mime};base64,${encodeBase64(file.bytes)}`;
+}
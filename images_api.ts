@@ -0,0 +1,135 @@
+// ================= OpenAI Images API =================
+// POST /v1/images/generations 的请求解析与响应构造；渠道路由与生成复用 chat 接口的同一套逻辑。
+// 请求：{ prompt, model?, size?, n?, response_format? }（其余字段保留在 extra 中）
+// response_format=b64_json 时由服务端下载生成结果并返回 base64
+// 响应：{ created, size, data: [{ url | b64_json, revised_prompt }] }（size 为实际使用的尺寸）
+
+import type { NormalizedChatRequest } from "./normalizer.ts";
+import { type GenerationParams, parseGenerationParams } from "./generation_params.ts";
+import type { GeneratedImage } from "./provider_registry.ts";
+
+export type ImageResponseFormat = "url" | "b64_json";
+
+// 单次请求允许的最大 n（与 OpenAI 一致）
+export const MAX_IMAGES_PER_REQUEST = 10;
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  model?: string;
+  size?: string;
+  n: number;
+  // 未指定时使用实际出图渠道的默认输出模式（IMAGE_OUTPUT_MODE）
+  responseFormat?: ImageResponseFormat;
+  // 通用生成参数（seed / negative_prompt 等）
+  params?: GenerationParams;
+  // 保留原始字段（便于后续透传/调试）
+  extra: Record<string, unknown>;
+}
+
+export type ParsedImageRequest =
+  | { ok: true; value: ImageGenerationRequest }
+  | { ok: false; message: string };
+
+export interface ImagesResponseItem {
+  url?: string;
+  b64_json?: string;
+  revised_prompt: string;
+}
+
+export interface ImagesResponse {
+  created: number;
+  size?: string;
+  data: ImagesResponseItem[];
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function optionalString(v: unknown): string | undefined {
+  return typeof v === "string" && v.trim() !== "" ? v.trim() : undefined;
+}
+
+/**
+ * 解析并校验 Images API 请求体
+ * - prompt 必填；n 为 1..MAX_IMAGES_PER_REQUEST 的整数；response_format 为 url / b64_json
+ */
+export function parseImageGenerationRequest(raw: unknown): ParsedImageRequest {
+  if (!isRecord(raw)) return { ok: false, message: "Request body must be a JSON object" };
+
+  const prompt = optionalString(raw.prompt);
+  if (!prompt) return { ok: false, message: "prompt is required" };
+
+  let n = 1;
+  if (raw.n !== undefined && raw.n !== null) {
+    if (
+      typeof raw.n !== "number" || !Number.isInteger(raw.n) || raw.n < 1 ||
+      raw.n > MAX_IMAGES_PER_REQUEST
+    ) {
+      return {
+        ok: false,
+        message: `n must be an integer between 1 and ${MAX_IMAGES_PER_REQUEST}`,
+      };
+    }
+    n = raw.n;
+  }
+
+  let responseFormat: ImageResponseFormat | undefined;
+  if (raw.response_format !== undefined && raw.response_format !== null) {
+    if (raw.response_format !== "url" && raw.response_format !== "b64_json") {
+      return { ok: false, message: 'response_format must be "url" or "b64_json"' };
+    }
+    responseFormat = raw.response_format;
+  }
+
+  const params = parseGenerationParams(raw);
+  if (!params.ok) return params;
+
+  return {
+    ok: true,
+    value: {
+      prompt,
+      model: optionalString(raw.model),
+      size: optionalString(raw.size),
+      n,
+      responseFormat,
+      ...(Object.keys(params.value).length > 0 ? { params: params.value } : {}),
+      extra: raw,
+    },
+  };
+}
+
+// 转为生成管线使用的请求结构（prompt 作为唯一一条 user 消息）
+export function toNormalizedRequest(request: ImageGenerationRequest): NormalizedChatRequest {
+  return {
+    model: request.model,
+    size: request.size,
+    n: request.n,
+    ...(request.params ? { params: request.params } : {}),
+    stream: false,
+    messages: [{ role: "user", parts: [{ kind: "text", text: request.prompt }] }],
+    extra: request.extra,
+  };
+}
+
+/**
+ * 构造 Images API 响应
+ * - 按 response_format 优先返回对应字段；上游只提供另一种形式时原样返回
+ *   （b64_json 模式下 main.ts 已下载只有 URL 的结果，见 image_output.ts）
+ * - b64_json 统一为裸 base64（去掉 dataURL 前缀）
+ */
+export function buildImagesResponse(
+  images: GeneratedImage[],
+  prompt: string,
+  responseFormat: ImageResponseFormat,
+  size?: string,
+): ImagesResponse {
+  const data = images.map((img): ImagesResponseItem => {
+    const revised_prompt = img.revised_prompt ?? prompt;
+    const b64 = img.b64_json?.replace(/^data:[^,]*,/, "");
+    if (responseFormat === "b64_json" && b64) return { b64_json: b64, revised_prompt };
+    if (img.url) return { url: img.url, revised_prompt };
+    return { b64_json: b64, revised_prompt };
+  });
+  return { created: Math.floor(Date.now() / 1000), ...(size ? { size } : {}), data };
+}
@@ -0,0 +1,162 @@
+// ================= 异步任务 =================
+// POST /v1/jobs 立即返回任务 ID，生成在后台进行；客户端通过 GET /v1/jobs/:id 轮询状态、进度与结果，
+// 避免长时间占用 HTTP 连接（ModelScope 轮询可达数分钟，容易被负载均衡断开）。
+// - 任务保存在进程内存中（重启后丢失）；结束后保留 JOB_TTL_MS（默认 1 小时）
+// - 只有提交任务时使用的 Key 能查询该任务（其他 Key 视为不存在）
+// - 未结束的任务数上限 JOB_MAX_ACTIVE、内存中保存的任务总数上限 JOB_MAX_STORED，超出时拒绝提交
+
+import { getEnvInt } from "./config.ts";
+import type { ImagesResponse } from "./images_api.ts";
+import type { GenerationProgress } from "./provider_registry.ts";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface Job {
+  id: string;
+  // 提交任务的 Key（不对外返回）
+  owner: string;
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+  // 过期时间（任务结束后设置）
+  expiresAt?: number;
+  provider?: string;
+  model?: string;
+  progress?: GenerationProgress;
+  result?: ImagesResponse;
+  error?: string;
+}
+
+// GET /v1/jobs/:id 的响应
+export interface JobView {
+  id: string;
+  object: "image.job";
+  status: JobStatus;
+  created_at: number;
+  updated_at: number;
+  provider?: string;
+  model?: string;
+  progress: GenerationProgress | null;
+  result?: ImagesResponse;
+  error?: { message: string };
+}
+
+// 任务数达到上限时抛出
+export class JobLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobLimitError";
+  }
+}
+
+const jobs = new Map<string, Job>();
+
+function getTtlMs(): number {
+  return getEnvInt("JOB_TTL_MS", 60 * 60 * 1000);
+}
+
+function isFinished(job: Job): boolean {
+  return job.status === "succeeded" || job.status === "failed";
+}
+
+// 上限 <= 0 表示不限制
+function checkLimits(): void {
+  const maxStored = getEnvInt("JOB_MAX_STORED", 1000);
+  if (maxStored > 0 && jobs.size >= maxStored) {
+    throw new JobLimitError(`任务数已达上限 (${maxStored})，请等待已结束的任务过期后重试`);
+  }
+  const maxActive = getEnvInt("JOB_MAX_ACTIVE", 50);
+  let active = 0;
+  for (const job of jobs.values()) if (!isFinished(job)) active++;
+  if (maxActive > 0 && active >= maxActive) {
+    throw new JobLimitError(`进行中的任务数已达上限 (${maxActive})，请稍后重试`);
+  }
+}
+
+// 清理已过期的任务（在创建/查询时顺带执行，无需定时器）
+function sweepExpired(now: number): void {
+  for (const [id, job] of jobs) {
+    if (job.expiresAt !== undefined && job.expiresAt <= now) jobs.delete(id);
+  }
+}
+
+/**
+ * 创建任务
+ * @throws JobLimitError 进行中或保存的任务数达到上限
+ */
+export function createJob(owner: string, now: number = Date.now()): Job {
+  sweepExpired(now);
+  checkLimits();
+  const job: Job = {
+    id: `job_${crypto.randomUUID().replaceAll("-", "")}`,
+    owner,
+    status: "queued",
+    createdAt: now,
+    updatedAt: now,
+  };
+  jobs.set(job.id, job);
+  return job;
+}
+
+/**
+ * 查询任务
+ * @returns 不存在、已过期或不属于该 Key 时返回 undefined
+ */
+export function getJob(id: string, owner: string, now: number = Date.now()): Job | undefined {
+  sweepExpired(now);
+  const job = jobs.get(id);
+  return job && job.owner === owner ? job : undefined;
+}
+
+export function updateJobProgress(
+  id: string,
+  progress: GenerationProgress,
+  now: number = Date.now(),
+): void {
+  const job = jobs.get(id);
+  if (!job || isFinished(job)) return;
+  job.status = "running";
+  job.provider = progress.provider;
+  job.progress = progress;
+  job.updatedAt = now;
+}
+
+export function completeJob(
+  id: string,
+  result: ImagesResponse,
+  served: { provider: string; model: string },
+  now: number = Date.now(),
+): void {
+  const job = jobs.get(id);
+  if (!job) return;
+  job.status = "succeeded";
+  job.result = result;
+  job.provider = served.provider;
+  job.model = served.model;
+  job.updatedAt = now;
+  job.expiresAt = now + getTtlMs();
+}
+
+export function failJob(id: string, message: string, now: number = Date.now()): void {
+  const job = jobs.get(id);
+  if (!job) return;
+  job.status = "failed";
+  job.error = message;
+  job.updatedAt = now;
+  job.expiresAt = now + getTtlMs();
+}
+
+export function toJobView(job: Job): JobView {
+  return {
+    id: job.id,
+    object: "image.job",
+    status: job.status,
+    created_at: Math.floor(job.createdAt / 1000),
+    updated_at: Math.floor(job.updatedAt / 1000),
+    ...(job.provider ? { provider: job.provider } : {}),
+    ...(job.model ? { model: job.model } : {}),
+    progress: job.progress ?? null,
+    ...(job.result ? { result: job.result } : {}),
+    ...(job.error ? { error: { message: job.error } } : {}),
+  };
+}
@@ -0,0 +1,166 @@
+// ================= 服务端上游 Key 池 =================
+// 客户端使用 ACCESS_KEYS 中的访问令牌调用 ImgRouter 时，由服务端从渠道 Key 池中选取上游 Key：
+// - 策略：round_robin（轮询）/ least_recently_failed（优先最久未失败）
+// - 上游返回 401/403/429 的 Key 会被暂时冷却，期间不参与选择
+// - 日志中只出现 Key 的 alias
+
+import {
+  getEnvInt,
+  type KeyStrategy,
+  parseKeyStrategy,
+  type PoolKey,
+  type ProviderConfig,
+} from "./config.ts";
+
+interface KeyHealth {
+  // 与 alias 绑定的 Key（配置热加载后 Key 变化则重置健康状态）
+  key: string;
+  benchedUntil: number;
+  lastFailureAt: number;
+  lastUsedAt: number;
+  consecutiveFailures: number;
+}
+
+interface PoolState {
+  cursor: number;
+  health: Map<string, KeyHealth>;
+}
+
+const pools = new Map<string, PoolState>();
+
+// 客户端访问令牌（逗号分隔）；持有这些令牌的请求使用服务端 Key 池
+export function isAccessKey(token: string): boolean {
+  if (!token) return false;
+  const keys = (Deno.env.get("ACCESS_KEYS") ?? "").split(",").map((k) => k.trim());
+  return keys.some((k) => k !== "" && k === token);
+}
+
+export function hasKeyPool(config: ProviderConfig): boolean {
+  return Array.isArray(config.keys) && config.keys.length > 0;
+}
+
+function getStrategy(config: ProviderConfig): KeyStrategy {
+  return config.keyStrategy ?? parseKeyStrategy(Deno.env.get("KEY_POOL_STRATEGY")) ??
+    "round_robin";
+}
+
+function getPoolState(provider: string): PoolState {
+  let state = pools.get(provider);
+  if (!state) {
+    state = { cursor: 0, health: new Map() };
+    pools.set(provider, state);
+  }
+  return state;
+}
+
+function getHealth(state: PoolState, poolKey: PoolKey): KeyHealth {
+  let health = state.health.get(poolKey.alias);
+  if (!health || health.key !== poolKey.key) {
+    health = {
+      key: poolKey.key,
+      benchedUntil: 0,
+      lastFailureAt: 0,
+      lastUsedAt: 0,
+      consecutiveFailures: 0,
+    };
+    state.health.set(poolKey.alias, health);
+  }
+  return health;
+}
+
+/**
+ * 从渠道 Key 池中选取一个可用 Key
+ * @returns 全部 Key 都在冷却中时返回 undefined
+ */
+export function acquirePoolKey(
+  provider: string,
+  config: ProviderConfig,
+  now: number = Date.now(),
+): PoolKey | undefined {
+  const keys = config.keys ?? [];
+  if (keys.length === 0) return undefined;
+
+  const state = getPoolState(provider);
+  const available = keys.filter((k) => getHealth(state, k).benchedUntil <= now);
+  if (available.length === 0) return undefined;
+
+  let chosen: PoolKey;
+  if (getStrategy(config) === "least_recently_failed") {
+    chosen = available.reduce((best, k) => {
+      const h = getHealth(state, k);
+      const b = getHealth(state, best);
+      if (h.lastFailureAt !== b.lastFailureAt) return h.lastFailureAt < b.lastFailureAt ? k : best;
+      return h.lastUsedAt < b.lastUsedAt ? k : best;
+    });
+  } else {
+    // 按配置顺序轮询，跳过冷却中的 Key
+    chosen = available[0]!;
+    for (let i = 0; i < keys.length; i++) {
+      const candidate = keys[(state.cursor + i) % keys.length]!;
+      if (available.includes(candidate)) {
+        chosen = candidate;
+        state.cursor = (state.cursor + i + 1) % keys.length;
+        break;
+      }
+    }
+  }
+
+  getHealth(state, chosen).lastUsedAt = now;
+  return chosen;
+}
+
+export function reportPoolKeySuccess(provider: string, poolKey: PoolKey): void {
+  const health = getHealth(getPoolState(provider), poolKey);
+  health.consecutiveFailures = 0;
+}
+
+/**
+ * 记录 Key 调用失败
+ * @param status 上游 HTTP 状态码；401/403 与 429 会触发冷却，网络错误等只记录失败时间
+ * @returns 冷却时长（毫秒），未冷却返回 0
+ */
+export function reportPoolKeyFailure(
+  provider: string,
+  poolKey: PoolKey,
+  status?: number,
+  now: number = Date.now(),
+): number {
+  const health = getHealth(getPoolState(provider), poolKey);
+  health.lastFailureAt = now;
+  health.consecutiveFailures++;
+
+  let benchMs = 0;
+  if (status === 401 || status === 403) {
+    benchMs = getEnvInt("KEY_POOL_AUTH_BENCH_MS", 10 * 60 * 1000);
+  } else if (status === 429) {
+    benchMs = getEnvInt("KEY_POOL_RATE_LIMIT_BENCH_MS", 60 * 1000);
+  }
+  if (benchMs > 0) health.benchedUntil = now + benchMs;
+  return benchMs;
+}
+
+export interface PoolKeyStatus {
+  alias: string;
+  benched: boolean;
+  benchedUntil?: string;
+  consecutiveFailures: number;
+}
+
+// Key 池状态快照（不含 Key 本身）
+export function getPoolStatus(
+  provider: string,
+  config: ProviderConfig,
+  now: number = Date.now(),
+): PoolKeyStatus[] {
+  const state = getPoolState(provider);
+  return (config.keys ?? []).map((k) => {
+    const h = getHealth(state, k);
+    const benched = h.benchedUntil > now;
+    return {
+      alias: k.alias,
+      benched,
+      ...(benched ? { benchedUntil: new Date(h.benchedUntil).toISOString() } : {}),
+      consecutiveFailures: h.consecutiveFailures,
+    };
+  });
+}
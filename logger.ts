@@ -111,9 +111,11 @@ export function logRequestStart(req: Request, requestId: string): void {
 }
 
 export function logRequestEnd(requestId: string, method: string, url: string, status: number, duration: number, error?: string): void {
-  const result = error ? "失败" : "成功";
+  // 499：客户端断开导致的取消，不计为失败
+  const cancelled = status === 499;
+  const result = cancelled ? "已取消" : error ? "失败" : "成功";
   const msg = `响应 ${requestId} ${method} ${url} ${status} ${result} (${duration}ms)`;
-  writeLog(error ? LogLevel.WARN : LogLevel.INFO, "HTTP", msg);
+  writeLog(error && !cancelled ? LogLevel.WARN : LogLevel.INFO, "HTTP", msg);
   
   if (duration > 5000) {
     writeLog(LogLevel.WARN, "Perf", `慢请求 ${requestId}: ${duration}ms`);
@@ -124,6 +126,10 @@ export function logProviderRouting(provider: string, keyPrefix: string): void {
   writeLog(LogLevel.INFO, "Router", `路由 ${provider} (${keyPrefix}...)`);
 }
 
+export function logPoolKey(provider: string, requestId: string, alias: string): void {
+  writeLog(LogLevel.INFO, provider, `🔑 使用 Key 池 ${alias} (${requestId})`);
+}
+
 export function logApiCallStart(provider: string, op: string): void {
   writeLog(LogLevel.INFO, provider, `API ${op} 开始`);
 }
@@ -133,6 +139,10 @@ export function logApiCallEnd(provider: string, op: string, success: boolean, du
   writeLog(success ? LogLevel.INFO : LogLevel.ERROR, provider, `API ${op} ${status} (${duration}ms)`);
 }
 
+export function logApiCallCancelled(provider: string, op: string, duration: number): void {
+  writeLog(LogLevel.INFO, provider, `API ${op} 已取消 (${duration}ms)`);
+}
+
 // ================= 图片生成日志增强 =================
 
 /**
@@ -1,6 +1,8 @@
 // 三合一图像生成 API 中转服务
-// 支持：火山引擎 (VolcEngine)、Gitee (模力方舟)、ModelScope (魔塔)
-// 路由策略：根据 API Key 格式自动分发
+// 内置：火山引擎 (VolcEngine)、Gitee (模力方舟)、ModelScope (魔塔)，渠道通过 provider_registry.ts 注册
+// 路由策略：优先 X-ImgRouter-Provider 头 / "provider/model" 前缀，否则根据 API Key 格式自动分发
+// 接口：/v1/chat/completions、/v1/responses、/v1/images/generations、/v1/images/edits、/v1/jobs、
+//       /v1/models、/files/:id、/status
 
 // ================= 导入日志模块 =================
 
@@ -10,41 +12,51 @@ import {
   closeLogger,
   logRequestStart,
   logRequestEnd,
-  logProviderRouting,
-  logApiCallStart,
-  logApiCallEnd,
   generateRequestId,
   info,
   warn,
   error,
   debug,
   LogLevel,
-  // 增强日志函数
-  logFullPrompt,
-  logInputImages,
-  logImageGenerationStart,
-  logGeneratedImages,
-  logImageGenerationComplete,
-  logImageGenerationFailed,
 } from "./logger.ts";
 
 // ================= 配置常量 =================
 
-import {
-  VolcEngineConfig,
-  GiteeConfig,
-  ModelScopeConfig,
-  API_TIMEOUT_MS,
-  PORT,
-} from "./config.ts";
+import { getEnvBool, getEnvInt, PORT, REQUEST_DEADLINE_MS } from "./config.ts";
 
 import {
-  normalizeChatRequest,
   extractLastUserPromptAndImages,
+  extractSystemPrompt,
+  type IterativeEditMode,
   type NormalizedChatRequest,
+  normalizeResponsesRequest,
+  parseIterativeEditMode,
 } from "./normalizer.ts";
 
-import { parseChatRequestBody } from "./request_parser.ts";
+import {
+  type ImageEditBody,
+  parseChatRequest,
+  parseImageEditRequestBody,
+} from "./request_parser.ts";
+
+import type { ResolveImageOptions } from "./image_resolver.ts";
+import {
+  type ImageOutputMode,
+  inlineGeneratedImages,
+  parseImageOutputMode,
+  rehostGeneratedImages,
+} from "./image_output.ts";
+import {
+  FILE_ID_REGEX,
+  getImageStorage,
+  readStoredFileAsDataUrl,
+  verifyFileUrl,
+} from "./image_storage.ts";
+import { parseImageFormats } from "./image_sniff.ts";
+import { parseSizeSpec } from "./image_size.ts";
+import { paramFieldName } from "./generation_params.ts";
+import { applyPromptFlags, formatPromptFlags, type PromptFlags } from "./prompt_flags.ts";
+import { composePrompt, isSystemPromptEnabled } from "./prompt_template.ts";
 
 import {
   prepareImagesForUpstream,
@@ -54,575 +66,359 @@ import {
   type ImageInputMode,
 } from "./image_input.ts";
 
-// ================= 类型定义 =================
+// ================= 渠道注册表 =================
 
-type Provider = "VolcEngine" | "Gitee" | "ModelScope" | "Unknown";
+import "./providers.ts";
+import { getPoolStatus, hasKeyPool, isAccessKey } from "./key_pool.ts";
+import { CircuitOpenError, getCircuitStatus } from "./circuit_breaker.ts";
+import { applyModelAlias } from "./model_aliases.ts";
+import { buildModelList, filterProvidersForCaller } from "./models.ts";
+import {
+  completeJob,
+  createJob,
+  failJob,
+  getJob,
+  type Job,
+  JobLimitError,
+  toJobView,
+  updateJobProgress,
+} from "./jobs.ts";
 
-// ================= 核心逻辑 =================
+import {
+  getConfigFilePath,
+  loadConfigFile,
+  reloadConfigFile,
+  watchConfigFile,
+} from "./config_file.ts";
 
-function detectProvider(apiKey: string): Provider {
-  if (!apiKey) return "Unknown";
+import { FALLBACK_HEADER, type FallbackResult, generateWithFallback } from "./fallback.ts";
+import { RequestCancelledError } from "./upstream.ts";
 
-  if (apiKey.startsWith("ms-")) {
-    logProviderRouting("ModelScope", apiKey.substring(0, 4));
-    return "ModelScope";
-  }
+import {
+  createChatProgressStream,
+  formatProgress,
+  parseStreamProgressMode,
+  type ProgressWriter,
+} from "./chat_stream.ts";
 
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-  if (uuidRegex.test(apiKey)) {
-    logProviderRouting("VolcEngine", apiKey.substring(0, 4));
-    return "VolcEngine";
-  }
+import {
+  buildImagesResponse,
+  type ImageGenerationRequest,
+  type ImagesResponse,
+  parseImageGenerationRequest,
+  toNormalizedRequest,
+} from "./images_api.ts";
 
-  const giteeRegex = /^[a-zA-Z0-9]{30,60}$/;
-  if (giteeRegex.test(apiKey)) {
-    logProviderRouting("Gitee", apiKey.substring(0, 4));
-    return "Gitee";
-  }
+import {
+  buildCompletedResponse,
+  createResponsesStream,
+  newResponseId,
+  type ResponsesResult,
+} from "./responses_api.ts";
 
-  logProviderRouting("Unknown", apiKey.substring(0, 4));
-  return "Unknown";
-}
+import {
+  getProvider,
+  getProviders,
+  getUnsupportedParams,
+  getUnsupportedParamsMode,
+  matchProvider,
+  PARTIAL_HEADER,
+  type ProgressListener,
+  PROVIDER_HEADER,
+  type ProviderAdapter,
+  renderImagesAsMarkdown,
+  selectProvider,
+  SIZE_HEADER,
+  supportsMask,
+} from "./provider_registry.ts";
 
-function getEnvInt(name: string, fallback: number): number {
-  const raw = Deno.env.get(name);
-  const n = Number.parseInt((raw ?? "").trim(), 10);
-  return Number.isFinite(n) ? n : fallback;
-}
+// ================= 核心逻辑 =================
 
-function getEnvBool(name: string, fallback: boolean): boolean {
-  const raw = (Deno.env.get(name) ?? "").trim().toLowerCase();
-  if (raw === "") return fallback;
-  if (raw === "1" || raw === "true" || raw === "yes" || raw === "on") return true;
-  if (raw === "0" || raw === "false" || raw === "no" || raw === "off") return false;
-  return fallback;
+function getProviderImageInputMode(provider: ProviderAdapter): ImageInputMode {
+  const globalMode = parseImageInputMode(Deno.env.get("IMAGE_INPUT_MODE"), "fetch_to_base64");
+  const per = Deno.env.get(`${provider.envPrefix}_IMAGE_INPUT_MODE`);
+  return parseImageInputMode(per, globalMode);
 }
 
-function enforceSupportedModels(): boolean {
-  // 默认不强制（允许透传任意 model，避免出现“被强制路由到默认模型”的问题）
-  return getEnvBool("ENFORCE_SUPPORTED_MODELS", false);
+function getProviderImageBase64Format(provider: ProviderAdapter): ImageBase64Format {
+  const globalFmt = parseImageBase64Format(Deno.env.get("IMAGE_BASE64_FORMAT"), "data_url");
+  const per = Deno.env.get(`${provider.envPrefix}_IMAGE_BASE64_FORMAT`);
+  return parseImageBase64Format(per, globalFmt);
 }
 
-function getProviderImageInputMode(provider: Provider): ImageInputMode {
-  const globalMode = parseImageInputMode(Deno.env.get("IMAGE_INPUT_MODE"), "fetch_to_base64");
-  const perProviderKey = provider === "VolcEngine"
-    ? "VOLCENGINE_IMAGE_INPUT_MODE"
-    : provider === "Gitee"
-    ? "GITEE_IMAGE_INPUT_MODE"
-    : provider === "ModelScope"
-    ? "MODELSCOPE_IMAGE_INPUT_MODE"
-    : undefined;
-
-  const per = perProviderKey ? Deno.env.get(perProviderKey) : undefined;
-  return parseImageInputMode(per, globalMode);
+// 参考图的格式与尺寸限制：<PREFIX>_IMAGE_FORMATS / <PREFIX>_MAX_IMAGE_DIMENSION 优先，其次全局配置
+function getProviderImageLimits(
+  provider: ProviderAdapter,
+): Pick<ResolveImageOptions, "allowedFormats" | "maxDimension"> {
+  const formats = parseImageFormats(Deno.env.get(`${provider.envPrefix}_IMAGE_FORMATS`)) ??
+    parseImageFormats(Deno.env.get("IMAGE_FORMATS"));
+  const maxDimension = getEnvInt(
+    `${provider.envPrefix}_MAX_IMAGE_DIMENSION`,
+    getEnvInt("MAX_IMAGE_DIMENSION", 0),
+  );
+  return {
+    allowedFormats: formats,
+    maxDimension: maxDimension > 0 ? maxDimension : undefined,
+  };
 }
 
-function getProviderImageBase64Format(provider: Provider): ImageBase64Format {
-  const globalFmt = parseImageBase64Format(Deno.env.get("IMAGE_BASE64_FORMAT"), "data_url");
-  const perProviderKey = provider === "VolcEngine"
-    ? "VOLCENGINE_IMAGE_BASE64_FORMAT"
-    : provider === "Gitee"
-    ? "GITEE_IMAGE_BASE64_FORMAT"
-    : provider === "ModelScope"
-    ? "MODELSCOPE_IMAGE_BASE64_FORMAT"
-    : undefined;
+// ================= 主处理函数 =================
 
-  const per = perProviderKey ? Deno.env.get(perProviderKey) : undefined;
-  return parseImageBase64Format(per, globalFmt);
+// 从 Authorization 头提取 Bearer Key
+function getBearerKey(req: Request): string {
+  return req.headers.get("Authorization")?.replace("Bearer ", "").trim() ?? "";
 }
 
-// ================= 超时控制辅助函数 =================
+// 图片拉取的大小与超时限制（参考图与生成结果共用）
+function getImageFetchOptions(signal?: AbortSignal): ResolveImageOptions {
+  return {
+    timeoutMs: getEnvInt("IMAGE_FETCH_TIMEOUT_MS", 10_000),
+    maxBytes: getEnvInt("MAX_IMAGE_BYTES", 10 * 1024 * 1024),
+    allowPrivateNetwork: getEnvBool("ALLOW_PRIVATE_IMAGE_FETCH", false),
+    signal,
+  };
+}
 
 /**
- * 带超时控制的 fetch 函数
- * @param url 请求 URL
- * @param options fetch 选项
- * @param timeoutMs 超时时间（毫秒），默认使用 API_TIMEOUT_MS
- * @returns Promise<Response>
+ * 按渠道配置预处理参考图（拉取转 base64 / 透传 URL）；signal 中止时取消拉取
+ * - 本服务转存的文件链接（{baseUrl}/files/:id，如多轮编辑沿用的上一轮结果）直接从存储读取为 dataURL
  */
-async function fetchWithTimeout(
-  url: string,
-  options: RequestInit,
-  timeoutMs: number = API_TIMEOUT_MS
-): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-  
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-    });
-    return response;
-  } finally {
-    clearTimeout(timeoutId);
-  }
+async function prepareProviderImages(
+  provider: ProviderAdapter,
+  images: string[],
+  baseUrl: string,
+  signal?: AbortSignal,
+): Promise<string[]> {
+  const local = await Promise.all(
+    images.map(async (url) => await readStoredFileAsDataUrl(url, baseUrl) ?? url),
+  );
+  return await prepareImagesForUpstream(local, {
+    mode: getProviderImageInputMode(provider),
+    base64Format: getProviderImageBase64Format(provider),
+    ...getImageFetchOptions(signal),
+    ...getProviderImageLimits(provider),
+  });
 }
 
-// ================= 渠道处理函数 =================
+function getProviderImageOutputMode(provider: ProviderAdapter): ImageOutputMode {
+  const globalMode = parseImageOutputMode(Deno.env.get("IMAGE_OUTPUT_MODE"), "url");
+  const per = Deno.env.get(`${provider.envPrefix}_IMAGE_OUTPUT_MODE`);
+  return parseImageOutputMode(per, globalMode);
+}
 
-async function handleVolcEngine(
-  apiKey: string,
-  reqBody: NormalizedChatRequest,
-  prompt: string,
-  images: string[],
-  requestId: string
-): Promise<string> {
-  const startTime = Date.now();
-  logApiCallStart("VolcEngine", "generate_image");
-  
-  // 记录完整 Prompt
-  logFullPrompt("VolcEngine", requestId, prompt);
-  
-  // 记录输入图片
-  logInputImages("VolcEngine", requestId, images);
-  
-  // 使用配置中的默认模型，支持多模型
-  const requestedModel = reqBody.model?.trim();
-  const model = requestedModel
-    ? (!enforceSupportedModels() || VolcEngineConfig.supportedModels.includes(requestedModel)
-      ? requestedModel
-      : (warn(
-        "VolcEngine",
-        `请求模型不在 supportedModels 中，已回退默认模型: ${requestedModel} -> ${VolcEngineConfig.defaultModel}（如需透传任意模型请设置 ENFORCE_SUPPORTED_MODELS=false）`,
-      ), VolcEngineConfig.defaultModel))
-    : VolcEngineConfig.defaultModel;
-  const size = reqBody.size || "4096x4096";
-  
-  // 记录生成开始
-  logImageGenerationStart("VolcEngine", requestId, model, size, prompt.length);
-  
-  const arkRequest = {
-    model: model,
-    prompt: prompt || "A beautiful scenery",
-    image: images,
-    response_format: "url",
-    size: size,
-    seed: -1,
-    stream: false,
-    watermark: false,
-  };
+// 输出模式：请求的 response_format 优先，未指定时使用实际出图渠道的默认值
+function resolveOutputMode(generated: FallbackResult, requested: unknown): ImageOutputMode {
+  const provider = getProvider(generated.provider);
+  return parseImageOutputMode(requested, provider ? getProviderImageOutputMode(provider) : "url");
+}
 
-  const response = await fetchWithTimeout(VolcEngineConfig.apiUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${apiKey}`,
-      "Connection": "close"
-    },
-    body: JSON.stringify(arkRequest),
-  });
+// 对外链接的根地址（/files/:id 使用）：PUBLIC_BASE_URL，未设置时取请求的 origin
+function getPublicBaseUrl(req: Request): string {
+  return Deno.env.get("PUBLIC_BASE_URL")?.trim().replace(/\/+$/, "") || new URL(req.url).origin;
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    const err = new Error(`VolcEngine API Error (${response.status}): ${errorText}`);
-    logImageGenerationFailed("VolcEngine", requestId, errorText);
-    logApiCallEnd("VolcEngine", "generate_image", false, Date.now() - startTime);
-    throw err;
+/**
+ * 按输出模式处理生成结果
+ * - b64_json：下载上游只返回 URL 的生成结果并内联为 dataURL
+ * - url：开启了存储时转存生成结果，返回 {baseUrl}/files/:id 链接
+ */
+async function applyOutputMode(
+  generated: FallbackResult,
+  mode: ImageOutputMode,
+  signal?: AbortSignal,
+  baseUrl?: string,
+): Promise<FallbackResult> {
+  if (mode === "b64_json") {
+    const images = await inlineGeneratedImages(generated.images, getImageFetchOptions(signal));
+    return { ...generated, images };
   }
-
-  const data = await response.json();
-  
-  // 记录生成的图片 URL
-  logGeneratedImages("VolcEngine", requestId, data.data || []);
-  
-  const duration = Date.now() - startTime;
-  const imageCount = data.data?.length || 0;
-  logImageGenerationComplete("VolcEngine", requestId, imageCount, duration);
-  
-  const result = data.data?.map((img: { url: string }) => `![Generated Image](${img.url})`).join("\n\n") || "图片生成失败";
-  
-  logApiCallEnd("VolcEngine", "generate_image", true, duration);
-  return result;
+  const storage = getImageStorage();
+  if (!storage || !baseUrl) return generated;
+  const images = await rehostGeneratedImages(generated.images, storage, {
+    ...getImageFetchOptions(signal),
+    baseUrl,
+  });
+  return { ...generated, images };
 }
 
-async function handleGitee(
-  apiKey: string,
-  reqBody: NormalizedChatRequest,
-  prompt: string,
-  images: string[],
-  requestId: string
-): Promise<string> {
-  const startTime = Date.now();
-  logApiCallStart("Gitee", "generate_image");
-
-  // 记录完整 Prompt
-  logFullPrompt("Gitee", requestId, prompt);
-
-  // 记录输入图片（图生图）
-  logInputImages("Gitee", requestId, images);
-  
-  // 使用配置中的默认模型，支持多模型
-  const requestedModel = reqBody.model?.trim();
-  const model = requestedModel
-    ? (!enforceSupportedModels() || GiteeConfig.supportedModels.includes(requestedModel)
-      ? requestedModel
-      : (warn(
-        "Gitee",
-        `请求模型不在 supportedModels 中，已回退默认模型: ${requestedModel} -> ${GiteeConfig.defaultModel}（如需透传任意模型请设置 ENFORCE_SUPPORTED_MODELS=false）`,
-      ), GiteeConfig.defaultModel))
-    : GiteeConfig.defaultModel;
-  const size = reqBody.size || "2048x2048";
-  
-  // 记录生成开始
-  logImageGenerationStart("Gitee", requestId, model, size, prompt.length);
-
-  const giteeRequest = {
-    model: model,
-    prompt: prompt || "A beautiful scenery",
-    // 图生图/编辑：尽量按 OpenAI 兼容扩展字段传递（不同上游可能字段名不同，但通常会忽略未知字段）
-    ...(images.length > 0 ? { image: images[0] } : {}),
-    size: size,
-    n: 1,
-    response_format: "url"
-  };
+// 客户端断开导致的中止（记为取消而非失败）
+function isCancelled(req: Request, err: unknown): boolean {
+  return err instanceof RequestCancelledError || req.signal.aborted;
+}
 
-  debug("Gitee", `发送请求到: ${GiteeConfig.apiUrl}`);
+// 记录取消；499 沿用 nginx 约定（客户端已断开，响应通常不会被读取）
+async function cancelRequest(
+  req: Request,
+  requestId: string,
+  startTime: number,
+): Promise<Response> {
+  info("HTTP", `${requestId} 客户端断开，请求已取消`);
+  await logRequestEnd(
+    requestId,
+    req.method,
+    new URL(req.url).pathname,
+    499,
+    Date.now() - startTime,
+    "cancelled",
+  );
+  return new Response(null, { status: 499 });
+}
 
-  const response = await fetchWithTimeout(GiteeConfig.apiUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${apiKey}`,
-      "User-Agent": "ImgRouter/1.0"
-    },
-    body: JSON.stringify(giteeRequest),
-  });
+type RoutedRequest =
+  | { ok: true; provider: ProviderAdapter; pooled: boolean; explicit: boolean }
+  | { ok: false; status: number; message: string };
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    const err = new Error(`Gitee API Error (${response.status}): ${errorText}`);
-    error("Gitee", `API 错误: ${response.status}`);
-    logImageGenerationFailed("Gitee", requestId, errorText);
-    logApiCallEnd("Gitee", "generate_image", false, Date.now() - startTime);
-    throw err;
+/**
+ * 渠道路由（各生成接口共用）：模型别名 → X-ImgRouter-Provider / "provider/model" 前缀 → API Key 格式检测
+ * - 持有访问令牌时从服务端 Key 池所在渠道中选择
+ * - 成功时将 request.model 改写为渠道内的模型名
+ */
+function routeRequest(
+  req: Request,
+  apiKey: string,
+  request: Pick<NormalizedChatRequest, "model" | "size" | "params">,
+): RoutedRequest {
+  // 模型别名先于渠道选择解析（别名可固定渠道与默认尺寸）
+  const alias = applyModelAlias(request);
+  if (alias) info("HTTP", `模型别名 ${alias.alias} -> ${request.model}`);
+  if (request.size?.trim() && !parseSizeSpec(request.size)) {
+    return {
+      ok: false,
+      status: 400,
+      message: `Invalid size: ${request.size} (expected WxH, W:H, 1K/2K/4K or auto)`,
+    };
   }
 
-  const responseText = await response.text();
-  const data = JSON.parse(responseText);
-
-  if (!data.data || !Array.isArray(data.data) || data.data.length === 0) {
-    const err = new Error(`Gitee API 返回数据格式异常: ${JSON.stringify(data)}`);
-    error("Gitee", "返回数据格式异常");
-    logImageGenerationFailed("Gitee", requestId, "返回数据格式异常");
-    logApiCallEnd("Gitee", "generate_image", false, Date.now() - startTime);
-    throw err;
+  const pooled = isAccessKey(apiKey);
+  const selection = selectProvider(apiKey, request.model, req.headers.get(PROVIDER_HEADER), {
+    pooled,
+  });
+  if (!selection.ok) return selection;
+  request.model = selection.model;
+
+  // UNSUPPORTED_PARAMS=reject 时明确拒绝渠道不支持的生成参数
+  const unsupported = getUnsupportedParams(selection.provider, request);
+  if (unsupported.length > 0 && getUnsupportedParamsMode(selection.provider) === "reject") {
+    return {
+      ok: false,
+      status: 400,
+      message: `Provider ${selection.provider.name} does not support: ${
+        unsupported.map(paramFieldName).join(", ")
+      }`,
+    };
   }
+  return { ok: true, provider: selection.provider, pooled, explicit: selection.explicit };
+}
 
-  // 记录生成的图片 URL
-  logGeneratedImages("Gitee", requestId, data.data);
-  
-  const duration = Date.now() - startTime;
-  const imageCount = data.data.length;
-  logImageGenerationComplete("Gitee", requestId, imageCount, duration);
-
-  const imageUrls = data.data.map((img: { url?: string; b64_json?: string }) => {
-    if (img.url) {
-      return `![Generated Image](${img.url})`;
-    } else if (img.b64_json) {
-      return `![Generated Image](data:image/png;base64,${img.b64_json})`;
-    }
-    return "";
-  }).filter(Boolean);
+// 多轮编辑模式（chat / Responses API）：CHAT_ITERATIVE_EDIT=off / image / merge
+function getIterativeEditMode(): IterativeEditMode {
+  return parseIterativeEditMode(Deno.env.get("CHAT_ITERATIVE_EDIT"), "off");
+}
 
-  const result = imageUrls.join("\n\n");
-  logApiCallEnd("Gitee", "generate_image", true, duration);
-  return result || "图片生成失败";
+// 写入提示词参数并记录日志；参数值不合法时返回错误信息
+function applyRequestPromptFlags(
+  requestId: string,
+  request: NormalizedChatRequest,
+  flags: PromptFlags,
+): string | undefined {
+  const text = formatPromptFlags(flags);
+  if (text) info("HTTP", `${requestId} 提示词参数: ${text}`);
+  if (flags.ignored) {
+    warn("HTTP", `${requestId} 忽略无法识别的提示词参数: ${flags.ignored.join(" ")}`);
+  }
+  return applyPromptFlags(request, flags);
 }
 
-async function handleModelScope(
+/**
+ * 组合最终 prompt：system 消息 → 模型 / 别名模板 → 客户端 Key 模板（见 prompt_template.ts）
+ * - 需在 routeRequest 改写模型名之前调用（模板按客户端请求的模型名匹配）
+ */
+function composeRequestPrompt(
+  requestId: string,
   apiKey: string,
-  reqBody: NormalizedChatRequest,
+  request: NormalizedChatRequest,
   prompt: string,
-  images: string[],
-  requestId: string
-): Promise<string> {
-  const startTime = Date.now();
-  logApiCallStart("ModelScope", "generate_image");
-
-  // 记录完整 Prompt
-  logFullPrompt("ModelScope", requestId, prompt);
-
-  // 记录输入图片（图生图）
-  logInputImages("ModelScope", requestId, images);
-  
-  // 使用配置中的默认模型，支持多模型
-  const requestedModel = reqBody.model?.trim();
-  const model = requestedModel
-    ? (!enforceSupportedModels() || ModelScopeConfig.supportedModels.includes(requestedModel)
-      ? requestedModel
-      : (warn(
-        "ModelScope",
-        `请求模型不在 supportedModels 中，已回退默认模型: ${requestedModel} -> ${ModelScopeConfig.defaultModel}（如需透传任意模型请设置 ENFORCE_SUPPORTED_MODELS=false）`,
-      ), ModelScopeConfig.defaultModel))
-    : ModelScopeConfig.defaultModel;
-  const size = reqBody.size || "2048x2048";
-  
-  // 记录生成开始
-  logImageGenerationStart("ModelScope", requestId, model, size, prompt.length);
-
-  const extractImages = (payload: any): { url?: string; b64_json?: string }[] => {
-    const out: { url?: string; b64_json?: string }[] = [];
-
-    const pushAny = (v: any): void => {
-      if (!v) return;
-      if (typeof v === "string") {
-        if (v.startsWith("data:")) out.push({ b64_json: v });
-        else out.push({ url: v });
-        return;
-      }
-      if (typeof v === "object") {
-        const url = typeof v.url === "string" ? v.url : undefined;
-        const b64 =
-          typeof v.b64_json === "string" ? v.b64_json
-            : (typeof v.base64 === "string" ? v.base64 : undefined);
-        if (url || b64) out.push({ url, b64_json: b64 });
-      }
-    };
-
-    const tryArray = (arr: any): void => {
-      if (!Array.isArray(arr)) return;
-      for (const it of arr) pushAny(it);
-    };
-
-    tryArray(payload?.output_images);
-    tryArray(payload?.output?.output_images);
-    tryArray(payload?.output?.images);
-    tryArray(payload?.output_images);
-    tryArray(payload?.images);
-    tryArray(payload?.data);
-
-    pushAny(payload?.output_image);
-    pushAny(payload?.output?.output_image);
-    pushAny(payload?.output?.image);
-
-    return out.filter((x) => (typeof x.url === "string" && x.url.trim() !== "") ||
-      (typeof x.b64_json === "string" && x.b64_json.trim() !== ""));
-  };
-
-  const submitUrlGenerations = `${ModelScopeConfig.apiUrl}/images/generations`;
-
-  const submitHeaders: Record<string, string> = {
-    "Authorization": `Bearer ${apiKey}`,
-    "X-ModelScope-Async-Mode": "true",
-  };
-
-  // ModelScope 的 image_url 通常期望可被其服务端拉取的 http(s) URL；dataURL/base64 建议走 image 字段。
-  const isHttpUrl = (v: string): boolean => v.startsWith("http://") || v.startsWith("https://");
-
-  const imageUrlList = images.filter(isHttpUrl);
-  const rawImage = images.find((v) => !isHttpUrl(v));
-
-  // ModelScope 的 Qwen Image Edit 系列通常走 /images/generations，并使用 image_url 传入参考图
-  // 参考：ModelScope 社区示例（/v1/images/generations + image_url）
-  // https://modelscope.csdn.net/691c36ee82fbe0098caca391.html
-  const buildSubmitBody = (useImageUrl: boolean): Record<string, unknown> => {
-    const body: Record<string, unknown> = {
-      model: model,
-      prompt: prompt || "A beautiful scenery",
-      response_format: "url",
-      size: size,
-      n: 1,
-    };
-
-    if (useImageUrl) {
-      if (imageUrlList.length > 0) body.image_url = imageUrlList;
-      // 兜底：少数情况下（客户端只给 dataURL）也允许把 dataURL 放入 image_url 试一次
-      else if (rawImage) body.image_url = [rawImage];
-    } else {
-      if (rawImage) body.image = rawImage;
-      // 如果只有 http(s) URL，也兜底传到 image（部分网关可能支持）
-      else if (imageUrlList.length > 0) body.image = imageUrlList[0];
-    }
-
-    return body;
-  };
-
-  // 优先策略：有 http(s) URL 则走 image_url；否则（dataURL/base64）走 image
-  const preferImageUrl = imageUrlList.length > 0;
-  const primaryBody = buildSubmitBody(preferImageUrl);
-
-  debug(
-    "ModelScope",
-    `提交生成: model=${model} prefer=${preferImageUrl ? "image_url" : "image"} image_url_count=${imageUrlList.length} raw_image_len=${rawImage?.length ?? 0}`,
-  );
-
-  let submitResponse = await fetchWithTimeout(submitUrlGenerations, {
-    method: "POST",
-    headers: {
-      ...submitHeaders,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(primaryBody),
-  });
-
-  // 轻量兜底：如果 400 且返回看不出具体原因，则尝试切换字段再提交一次
-  if (!submitResponse.ok && submitResponse.status === 400) {
-    const firstText = await submitResponse.text().catch(() => "");
-    const shouldRetry = (rawImage != null) || (imageUrlList.length > 0);
-
-    if (shouldRetry) {
-      warn(
-        "ModelScope",
-        `首次提交 400，尝试切换字段重试一次。first_error=${firstText || "<empty>"}`,
-      );
-      const retryBody = buildSubmitBody(!preferImageUrl);
-      submitResponse = await fetchWithTimeout(submitUrlGenerations, {
-        method: "POST",
-        headers: {
-          ...submitHeaders,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(retryBody),
-      });
-
-      if (!submitResponse.ok) {
-        const errorText = await submitResponse.text().catch(() => "");
-        const err = new Error(`ModelScope Submit Error (${submitResponse.status}): ${errorText}`);
-        logImageGenerationFailed("ModelScope", requestId, errorText);
-        logApiCallEnd("ModelScope", "generate_image", false, Date.now() - startTime);
-        throw err;
-      }
-
-      // 重试成功：继续走后续 json/轮询逻辑
-    } else {
-      // 没有可重试条件：直接抛出首错
-      const err = new Error(`ModelScope Submit Error (${submitResponse.status}): ${firstText}`);
-      logImageGenerationFailed("ModelScope", requestId, firstText);
-      logApiCallEnd("ModelScope", "generate_image", false, Date.now() - startTime);
-      throw err;
-    }
+): string {
+  const system = isSystemPromptEnabled() ? extractSystemPrompt(request.messages) : undefined;
+  const composed = composePrompt(prompt, { system, model: request.model, apiKey });
+  if (composed.applied.length > 0) {
+    info("HTTP", `${requestId} 提示词模板: ${composed.applied.join(" → ")}`);
   }
+  return composed.prompt;
+}
 
-  if (!submitResponse.ok) {
-    const errorText = await submitResponse.text();
-    const err = new Error(`ModelScope Submit Error (${submitResponse.status}): ${errorText}`);
-    logImageGenerationFailed("ModelScope", requestId, errorText);
-    logApiCallEnd("ModelScope", "generate_image", false, Date.now() - startTime);
-    throw err;
+// 实际出图渠道与尺寸的响应头（发生回退时附带失败过的渠道，拆分调用部分失败时附带实际张数）
+function buildServedHeaders(generated: FallbackResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    [PROVIDER_HEADER]: generated.provider,
+    [SIZE_HEADER]: generated.size,
+    "Access-Control-Expose-Headers":
+      `${PROVIDER_HEADER}, ${SIZE_HEADER}, ${FALLBACK_HEADER}, ${PARTIAL_HEADER}`,
+  };
+  if (generated.fallbackFrom.length > 0) {
+    headers[FALLBACK_HEADER] = generated.fallbackFrom.join(", ");
   }
-
-  const submitData = await submitResponse.json();
-
-  // 兼容：如果不返回 task_id（同步返回），直接尝试解析图片
-  const taskId = submitData.task_id;
-  if (!taskId) {
-    const imageData = extractImages(submitData);
-    if (imageData.length > 0) {
-      logGeneratedImages("ModelScope", requestId, imageData);
-      const result = imageData.map((img) => {
-        if (img.url) return `![Generated Image](${img.url})`;
-        if (img.b64_json) {
-          const v = img.b64_json.startsWith("data:")
-            ? img.b64_json
-            : `data:image/png;base64,${img.b64_json}`;
-          return `![Generated Image](${v})`;
-        }
-        return "";
-      }).filter(Boolean).join("\n\n");
-      logApiCallEnd("ModelScope", "generate_image", true, Date.now() - startTime);
-      return result || "图片生成失败";
-    }
-    throw new Error(`ModelScope unexpected response without task_id: ${JSON.stringify(Object.keys(submitData ?? {}))}`);
+  if (generated.failures.length > 0) {
+    headers[PARTIAL_HEADER] = `${generated.images.length}/${generated.requested}`;
   }
+  return headers;
+}
 
-  info("ModelScope", `任务已提交, Task ID: ${taskId}`);
-
-  const maxAttempts = 60;
-  let pollingAttempts = 0;
-  
-  // ModelScope 文档/示例里图像任务通常使用 image_generation（包括 image edit 模型）
-  const defaultTaskType = "image_generation";
-
-  for (let i = 0; i < maxAttempts; i++) {
-    await new Promise(resolve => setTimeout(resolve, 5000));
-    pollingAttempts++;
-
-    const configuredTaskType = (Deno.env.get("MODELSCOPE_TASK_TYPE") ?? defaultTaskType).trim();
-    const baseHeaders: Record<string, string> = {
-      "Authorization": `Bearer ${apiKey}`,
-    };
-    const headersWithType = configuredTaskType
-      ? { ...baseHeaders, "X-ModelScope-Task-Type": configuredTaskType }
-      : baseHeaders;
-
-    // 有些场景 task_type 可能不需要/不匹配：失败时自动降级为不带该头再试一次
-    let checkResponse = await fetchWithTimeout(`${ModelScopeConfig.apiUrl}/tasks/${taskId}`, {
-      method: "GET",
-      headers: headersWithType,
-    });
-    if (!checkResponse.ok && configuredTaskType) {
-      checkResponse = await fetchWithTimeout(`${ModelScopeConfig.apiUrl}/tasks/${taskId}`, {
-        method: "GET",
-        headers: baseHeaders,
-      });
-    }
-
-    if (!checkResponse.ok) {
-      warn("ModelScope", `轮询警告: ${checkResponse.status}`);
-      continue;
-    }
-
-    const checkData = await checkResponse.json();
-    const status = checkData.task_status;
-
-    if (status === "SUCCEED") {
-      const imageData = extractImages(checkData);
-
-      if (imageData.length === 0) {
-        // 帮助排查：仅打印 key，不打印完整 payload（避免日志爆炸）
-        const keys = Object.keys(checkData ?? {}).slice(0, 30);
-        warn(
-          "ModelScope",
-          `任务 SUCCEED 但未解析到图片输出，checkData keys=${JSON.stringify(keys)}`,
-        );
-      }
-
-      logGeneratedImages("ModelScope", requestId, imageData);
-
-      const duration = Date.now() - startTime;
-      const imageCount = imageData.length;
-      logImageGenerationComplete("ModelScope", requestId, imageCount, duration);
+// 客户端错误（缺少 Key、渠道选择失败、参数错误等）
+async function rejectRequest(
+  req: Request,
+  requestId: string,
+  status: number,
+  message: string,
+): Promise<Response> {
+  warn("HTTP", message);
+  await logRequestEnd(requestId, req.method, new URL(req.url).pathname, status, 0, message);
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+  });
+}
 
-      const toMarkdown = (img: { url?: string; b64_json?: string }): string => {
-        if (img.url) return `![Generated Image](${img.url})`;
-        if (img.b64_json) {
-          const v = img.b64_json.startsWith("data:")
-            ? img.b64_json
-            : `data:image/png;base64,${img.b64_json}`;
-          return `![Generated Image](${v})`;
-        }
-        return "";
-      };
-
-      const result = imageData.map(toMarkdown).filter(Boolean).join("\n\n") || "图片生成失败";
-
-      info("ModelScope", `任务成功完成, 耗时: ${pollingAttempts}次轮询`);
-      logApiCallEnd("ModelScope", "generate_image", true, duration);
-      return result;
-    } else if (status === "FAILED") {
-      const err = new Error(`ModelScope Task Failed: ${JSON.stringify(checkData)}`);
-      error("ModelScope", "任务失败");
-      logImageGenerationFailed("ModelScope", requestId, JSON.stringify(checkData));
-      logApiCallEnd("ModelScope", "generate_image", false, Date.now() - startTime);
-      throw err;
-    } else {
-      debug("ModelScope", `状态: ${status} (第${i + 1}次)`);
-    }
-  }
+// 生成失败（熔断快速失败返回 503，便于客户端/负载均衡区分）；startTime 为生成开始时间（日志耗时）
+async function failRequest(
+  req: Request,
+  requestId: string,
+  err: unknown,
+  providerName: string,
+  startTime: number,
+): Promise<Response> {
+  if (isCancelled(req, err)) return await cancelRequest(req, requestId, startTime);
+
+  const errorMessage = err instanceof Error ? err.message : "Internal Server Error";
+  const status = err instanceof CircuitOpenError ? 503 : 500;
+
+  error("Proxy", `请求处理错误 (${providerName}): ${errorMessage}`);
+  const pathname = new URL(req.url).pathname;
+  await logRequestEnd(
+    requestId,
+    req.method,
+    pathname,
+    status,
+    Date.now() - startTime,
+    errorMessage,
+  );
 
-  const err = new Error("ModelScope Task Timeout");
-  error("ModelScope", "任务超时");
-  logImageGenerationFailed("ModelScope", requestId, "任务超时");
-  logApiCallEnd("ModelScope", "generate_image", false, Date.now() - startTime);
-  throw err;
+  return new Response(
+    JSON.stringify({
+      error: { message: errorMessage, type: "server_error", provider: providerName },
+    }),
+    {
+      status,
+      headers: { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" },
+    },
+  );
 }
 
-// ================= 主处理函数 =================
-
 async function handleChatCompletions(req: Request): Promise<Response> {
   const url = new URL(req.url);
   const requestId = generateRequestId();
+  // 请求总时限：覆盖重试、轮询与跨渠道回退
+  const deadline = Date.now() + REQUEST_DEADLINE_MS;
 
   logRequestStart(req, requestId);
 
@@ -635,125 +431,132 @@ async function handleChatCompletions(req: Request): Promise<Response> {
     });
   }
 
-  const authHeader = req.headers.get("Authorization");
-  const apiKey = authHeader?.replace("Bearer ", "").trim();
-  
+  const apiKey = getBearerKey(req);
   if (!apiKey) {
-    warn("HTTP", "Authorization header 缺失");
-    await logRequestEnd(requestId, req.method, url.pathname, 401, 0, "missing auth");
-    return new Response(JSON.stringify({ error: "Authorization header missing" }), { 
-      status: 401, 
-      headers: { "Content-Type": "application/json" } 
-    });
+    return await rejectRequest(req, requestId, 401, "Authorization header missing");
   }
 
-  const provider = detectProvider(apiKey);
-  if (provider === "Unknown") {
-    warn("HTTP", "API Key 格式无法识别");
-    await logRequestEnd(requestId, req.method, url.pathname, 401, 0, "invalid key");
-    return new Response(JSON.stringify({ error: "Invalid API Key format. Could not detect provider." }), { 
-      status: 401, 
-      headers: { "Content-Type": "application/json" } 
-    });
+  // 请求体不合法（JSON 格式、n、seed 等）属于客户端错误，在生成流程之前返回 400
+  const parsed = await parseChatRequest(req);
+  if (!parsed.ok) return await rejectRequest(req, requestId, 400, parsed.message);
+  const { request: requestBody, warnings, injectedImageCount } = parsed.value;
+  for (const w of warnings) warn("HTTP", `${requestId} multipart warning: ${w}`);
+  if (injectedImageCount > 0) {
+    info("HTTP", `${requestId} multipart 注入图片数量: ${injectedImageCount}`);
   }
 
-  info("HTTP", `路由到 ${provider}`);
+  let providerName = "Unknown";
+  const startTime = Date.now();
 
   try {
-    const parsed = await parseChatRequestBody(req);
-    if (parsed.warnings.length > 0) {
-      for (const w of parsed.warnings) warn("HTTP", `${requestId} multipart warning: ${w}`);
-    }
-    if (parsed.injectedImageCount > 0) {
-      info("HTTP", `${requestId} multipart 注入图片数量: ${parsed.injectedImageCount}`);
+    const extracted = extractLastUserPromptAndImages(
+      requestBody.messages || [],
+      getIterativeEditMode(),
+    );
+    const { images, flags, fromHistory } = extracted;
+    if (fromHistory) info("HTTP", `${requestId} 多轮编辑：沿用上一轮生成的图片作为参考图`);
+
+    // 提示词参数（--ar / --seed / --no / --n / --model）先于渠道选择写入请求
+    const flagError = applyRequestPromptFlags(requestId, requestBody, flags);
+    if (flagError) return await rejectRequest(req, requestId, 400, flagError);
+    const prompt = composeRequestPrompt(requestId, apiKey, requestBody, extracted.prompt);
+
+    // 渠道选择：X-ImgRouter-Provider / "provider/model" 前缀优先，否则按 API Key 格式检测
+    const route = routeRequest(req, apiKey, requestBody);
+    if (!route.ok) {
+      return await rejectRequest(req, requestId, route.status, route.message);
     }
+    const { provider, pooled } = route;
+    providerName = provider.name;
+
+    info("HTTP", `路由到 ${provider.name}${route.explicit ? "（显式指定）" : ""}`);
 
-    const requestBody = normalizeChatRequest(parsed.body);
     const isStream = requestBody.stream === true;
-    const { prompt, images } = extractLastUserPromptAndImages(requestBody.messages || []);
-
-    const imageMode = getProviderImageInputMode(provider);
-    const base64Format = getProviderImageBase64Format(provider);
-    const imageFetchTimeoutMs = getEnvInt("IMAGE_FETCH_TIMEOUT_MS", 10_000);
-    const maxImageBytes = getEnvInt("MAX_IMAGE_BYTES", 10 * 1024 * 1024);
-    const allowPrivateImageFetch = getEnvBool("ALLOW_PRIVATE_IMAGE_FETCH", false);
-
-    const upstreamImages = await prepareImagesForUpstream(images, {
-      mode: imageMode,
-      base64Format,
-      timeoutMs: imageFetchTimeoutMs,
-      maxBytes: maxImageBytes,
-      allowPrivateNetwork: allowPrivateImageFetch,
-    });
 
     // 记录完整 Prompt（DEBUG 级别只记录摘要）
     debug("Router", `提取 Prompt: ${prompt?.substring(0, 80)}... (完整长度: ${prompt?.length || 0})`);
 
-    let imageContent = "";
-    
-    switch (provider) {
-      case "VolcEngine":
-        imageContent = await handleVolcEngine(apiKey, requestBody, prompt, upstreamImages, requestId);
-        break;
-      case "Gitee":
-        imageContent = await handleGitee(apiKey, requestBody, prompt, upstreamImages, requestId);
-        break;
-      case "ModelScope":
-        imageContent = await handleModelScope(apiKey, requestBody, prompt, upstreamImages, requestId);
-        break;
-    }
-
     const responseId = `chatcmpl-${crypto.randomUUID()}`;
-    const modelName = requestBody.model || "unknown-model";
-    const startTime = Date.now();
+
+    const generate = async (
+      signal: AbortSignal,
+      progress?: ProgressWriter,
+    ): Promise<FallbackResult> => {
+      const upstreamImages = await prepareProviderImages(
+        provider,
+        images,
+        getPublicBaseUrl(req),
+        signal,
+      );
+      if (upstreamImages.length > 0) progress?.(`参考图已处理（${upstreamImages.length} 张）`);
+
+      const generated = await generateWithFallback(provider, {
+        apiKey,
+        requestId,
+        request: requestBody,
+        prompt,
+        images: upstreamImages,
+        usePool: pooled,
+        deadline,
+        signal,
+        onProgress: progress ? (p) => progress(formatProgress(p)) : undefined,
+      });
+      const mode = resolveOutputMode(generated, requestBody.extra.response_format);
+      if (mode === "b64_json") progress?.("正在下载生成结果…");
+      return await applyOutputMode(generated, mode, signal, getPublicBaseUrl(req));
+    };
 
     if (isStream) {
-      const encoder = new TextEncoder();
-      const stream = new ReadableStream({
-        start(controller) {
-          const contentChunk = {
-            id: responseId,
-            object: "chat.completion.chunk",
-            created: Math.floor(Date.now() / 1000),
-            model: modelName,
-            choices: [{
-              index: 0,
-              delta: { role: "assistant", content: imageContent },
-              finish_reason: null
-            }]
-          };
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(contentChunk)}\n\n`));
-
-          const endChunk = {
-            id: responseId,
-            object: "chat.completion.chunk",
-            created: Math.floor(Date.now() / 1000),
-            model: modelName,
-            choices: [{
-              index: 0,
-              delta: {},
-              finish_reason: "stop"
-            }]
-          };
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify(endChunk)}\n\n`));
-          controller.enqueue(encoder.encode(`data: [DONE]\n\n`));
-          controller.close();
+      // 立即建立 SSE 连接，生成期间输出进度与 keep-alive；实际渠道在生成前未知，响应头只带路由渠道
+      const stream = createChatProgressStream({
+        id: responseId,
+        model: requestBody.model || provider.config.defaultModel,
+        keepAliveMs: getEnvInt("STREAM_KEEPALIVE_MS", 15_000),
+        progressMode: parseStreamProgressMode(Deno.env.get("STREAM_PROGRESS")),
+      }, async (progress, streamSignal) => {
+        const signal = AbortSignal.any([req.signal, streamSignal]);
+        try {
+          const generated = await generate(signal, progress);
+          info("HTTP", `响应完成 (流式, ${generated.provider})`);
+          await logRequestEnd(requestId, req.method, url.pathname, 200, Date.now() - startTime);
+          return { content: renderImagesAsMarkdown(generated.images), model: generated.model };
+        } catch (err) {
+          if (isCancelled(req, err) || signal.aborted) {
+            await cancelRequest(req, requestId, startTime);
+            throw err;
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          error("Proxy", `请求处理错误 (${providerName}, 流式): ${message}`);
+          await logRequestEnd(
+            requestId,
+            req.method,
+            url.pathname,
+            500,
+            Date.now() - startTime,
+            message,
+          );
+          throw err;
         }
       });
 
-      info("HTTP", `响应完成 (流式)`);
-      await logRequestEnd(requestId, req.method, url.pathname, 200, Date.now() - startTime);
-      
       return new Response(stream, {
         headers: {
           "Content-Type": "text/event-stream",
           "Cache-Control": "no-cache",
           "Connection": "keep-alive",
+          "X-Accel-Buffering": "no",
           "Access-Control-Allow-Origin": "*",
-        }
+          [PROVIDER_HEADER]: provider.name,
+          "Access-Control-Expose-Headers": PROVIDER_HEADER,
+        },
       });
     }
 
+    const generated = await generate(req.signal);
+    const imageContent = renderImagesAsMarkdown(generated.images);
+    const modelName = generated.model;
+    const servedHeaders = buildServedHeaders(generated);
+
     const responseBody = JSON.stringify({
       id: responseId,
       object: "chat.completion",
@@ -773,26 +576,501 @@ async function handleChatCompletions(req: Request): Promise<Response> {
     return new Response(responseBody, {
       headers: { 
         "Content-Type": "application/json", 
-        "Access-Control-Allow-Origin": "*" 
+        "Access-Control-Allow-Origin": "*",
+        ...servedHeaders,
       }
     });
 
   } catch (err) {
-    const errorMessage = err instanceof Error ? err.message : "Internal Server Error";
-    const errorProvider = provider || "Unknown";
-    
-    error("Proxy", `请求处理错误 (${errorProvider}): ${errorMessage}`);
-    await logRequestEnd(requestId, req.method, url.pathname, 500, 0, errorMessage);
-    
-    return new Response(JSON.stringify({ 
-      error: { message: errorMessage, type: "server_error", provider: errorProvider } 
-    }), { 
-      status: 500, 
-      headers: { "Content-Type": "application/json" } 
+    return await failRequest(req, requestId, err, providerName, startTime);
+  }
+}
+
+// ================= Images API =================
+
+interface ImagesApiInput {
+  request: ImageGenerationRequest;
+  // 参考图与蒙版（/v1/images/edits），尚未按渠道预处理
+  images: string[];
+  mask?: string;
+}
+
+type ImagesApiRoute =
+  | {
+    ok: true;
+    provider: ProviderAdapter;
+    pooled: boolean;
+    requestBody: NormalizedChatRequest;
+    // 套用服务端模板后的 prompt
+    prompt: string;
+  }
+  | { ok: false; status: number; message: string };
+
+// Images API 渠道路由（与 chat 接口相同）；带蒙版时要求渠道支持局部重绘，不支持时明确拒绝
+function routeImagesApi(
+  req: Request,
+  requestId: string,
+  apiKey: string,
+  input: ImagesApiInput,
+): ImagesApiRoute {
+  const requestBody = toNormalizedRequest(input.request);
+  const prompt = composeRequestPrompt(requestId, apiKey, requestBody, input.request.prompt);
+  const route = routeRequest(req, apiKey, requestBody);
+  if (!route.ok) return route;
+  if (input.mask && !supportsMask(route.provider)) {
+    return {
+      ok: false,
+      status: 400,
+      message: `Provider ${route.provider.name} does not support mask (inpainting)`,
+    };
+  }
+  info("HTTP", `路由到 ${route.provider.name}${route.explicit ? "（显式指定）" : ""} (Images API)`);
+  return { ok: true, provider: route.provider, pooled: route.pooled, requestBody, prompt };
+}
+
+// Images API 生成（同步接口与异步任务共用）
+async function generateImagesApi(
+  route: Extract<ImagesApiRoute, { ok: true }>,
+  requestId: string,
+  apiKey: string,
+  input: ImagesApiInput,
+  options: { baseUrl: string; signal?: AbortSignal; onProgress?: ProgressListener },
+): Promise<{ generated: FallbackResult; body: ImagesResponse }> {
+  const { provider } = route;
+  const { request } = input;
+  const { signal, onProgress } = options;
+  const upstreamImages = await prepareProviderImages(
+    provider,
+    input.images,
+    options.baseUrl,
+    signal,
+  );
+  const mask = input.mask
+    ? (await prepareProviderImages(provider, [input.mask], options.baseUrl, signal))[0]
+    : undefined;
+
+  const generated = await generateWithFallback(provider, {
+    apiKey,
+    requestId,
+    request: route.requestBody,
+    prompt: route.prompt,
+    images: upstreamImages,
+    mask,
+    usePool: route.pooled,
+    deadline: Date.now() + REQUEST_DEADLINE_MS,
+    signal,
+    onProgress,
+  });
+
+  const format = resolveOutputMode(generated, request.responseFormat);
+  const served = await applyOutputMode(generated, format, signal, options.baseUrl);
+  const body = buildImagesResponse(
+    served.images.slice(0, request.n),
+    route.prompt,
+    format,
+    generated.size,
+  );
+  return { generated: served, body };
+}
+
+// Images API 同步接口：生成完成后按 Images API 格式返回
+async function runImagesApi(
+  req: Request,
+  requestId: string,
+  apiKey: string,
+  input: ImagesApiInput,
+): Promise<Response> {
+  let providerName = "Unknown";
+  const startTime = Date.now();
+
+  try {
+    const route = routeImagesApi(req, requestId, apiKey, input);
+    if (!route.ok) return await rejectRequest(req, requestId, route.status, route.message);
+    providerName = route.provider.name;
+
+    const { generated, body } = await generateImagesApi(route, requestId, apiKey, input, {
+      baseUrl: getPublicBaseUrl(req),
+      signal: req.signal,
+    });
+
+    info("HTTP", `响应完成 (Images API, ${body.data.length} 张)`);
+    await logRequestEnd(
+      requestId,
+      req.method,
+      new URL(req.url).pathname,
+      200,
+      Date.now() - startTime,
+    );
+
+    return new Response(JSON.stringify(body), {
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        ...buildServedHeaders(generated),
+      },
+    });
+  } catch (err) {
+    return await failRequest(req, requestId, err, providerName, startTime);
+  }
+}
+
+// POST /v1/images/generations
+async function handleImageGenerations(req: Request): Promise<Response> {
+  const requestId = generateRequestId();
+  logRequestStart(req, requestId);
+
+  const apiKey = getBearerKey(req);
+  if (!apiKey) {
+    return await rejectRequest(req, requestId, 401, "Authorization header missing");
+  }
+
+  let raw: unknown;
+  try {
+    raw = await req.json();
+  } catch {
+    return await rejectRequest(req, requestId, 400, "Invalid JSON body");
+  }
+  const parsed = parseImageGenerationRequest(raw);
+  if (!parsed.ok) return await rejectRequest(req, requestId, 400, parsed.message);
+
+  return await runImagesApi(req, requestId, apiKey, { request: parsed.value, images: [] });
+}
+
+// POST /v1/images/edits：multipart（image 可多张、mask 可选）或 JSON
+async function handleImageEdits(req: Request): Promise<Response> {
+  const requestId = generateRequestId();
+  logRequestStart(req, requestId);
+
+  const apiKey = getBearerKey(req);
+  if (!apiKey) {
+    return await rejectRequest(req, requestId, 401, "Authorization header missing");
+  }
+
+  let edit: ImageEditBody;
+  try {
+    edit = await parseImageEditRequestBody(req);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return await rejectRequest(req, requestId, 400, `Invalid request body: ${message}`);
+  }
+  if (edit.images.length === 0) {
+    return await rejectRequest(req, requestId, 400, "image is required");
+  }
+
+  const parsed = parseImageGenerationRequest(edit.body);
+  if (!parsed.ok) return await rejectRequest(req, requestId, 400, parsed.message);
+
+  info(
+    "HTTP",
+    `${requestId} 图片编辑: 参考图 ${edit.images.length} 张${edit.mask ? "，带蒙版" : ""}`,
+  );
+  return await runImagesApi(req, requestId, apiKey, {
+    request: parsed.value,
+    images: edit.images,
+    mask: edit.mask,
+  });
+}
+
+// ================= Responses API =================
+
+// POST /v1/responses：input 归一化为 chat 请求，结果以 image_generation_call（base64）返回
+async function handleResponses(req: Request): Promise<Response> {
+  const requestId = generateRequestId();
+  const pathname = new URL(req.url).pathname;
+  logRequestStart(req, requestId);
+
+  const apiKey = getBearerKey(req);
+  if (!apiKey) {
+    return await rejectRequest(req, requestId, 401, "Authorization header missing");
+  }
+
+  let requestBody: NormalizedChatRequest;
+  try {
+    requestBody = normalizeResponsesRequest(await req.json());
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return await rejectRequest(req, requestId, 400, message);
+  }
+
+  const extracted = extractLastUserPromptAndImages(
+    requestBody.messages,
+    getIterativeEditMode(),
+  );
+  const { images, flags, fromHistory } = extracted;
+  if (fromHistory) info("HTTP", `${requestId} 多轮编辑：沿用上一轮生成的图片作为参考图`);
+  if (!extracted.prompt) {
+    return await rejectRequest(req, requestId, 400, "input must contain a text prompt");
+  }
+  const flagError = applyRequestPromptFlags(requestId, requestBody, flags);
+  if (flagError) return await rejectRequest(req, requestId, 400, flagError);
+  const prompt = composeRequestPrompt(requestId, apiKey, requestBody, extracted.prompt);
+
+  const route = routeRequest(req, apiKey, requestBody);
+  if (!route.ok) return await rejectRequest(req, requestId, route.status, route.message);
+  const { provider, pooled } = route;
+  info("HTTP", `路由到 ${provider.name}${route.explicit ? "（显式指定）" : ""} (Responses API)`);
+
+  const responseId = newResponseId();
+  const startTime = Date.now();
+  const deadline = startTime + REQUEST_DEADLINE_MS;
+
+  const generate = async (
+    signal: AbortSignal,
+    onProgress?: ProgressListener,
+  ): Promise<{ generated: FallbackResult; result: ResponsesResult }> => {
+    const upstreamImages = await prepareProviderImages(
+      provider,
+      images,
+      getPublicBaseUrl(req),
+      signal,
+    );
+    const generated = await generateWithFallback(provider, {
+      apiKey,
+      requestId,
+      request: requestBody,
+      prompt,
+      images: upstreamImages,
+      usePool: pooled,
+      deadline,
+      signal,
+      onProgress,
+    });
+    // Responses API 的 result 固定为裸 base64
+    const inlined = await applyOutputMode(generated, "b64_json", signal);
+    const result: ResponsesResult = {
+      model: generated.model,
+      images: inlined.images.map((img) => ({
+        result: (img.b64_json ?? "").replace(/^data:[^,]*,/, ""),
+        revised_prompt: img.revised_prompt ?? prompt,
+        size: generated.size,
+      })),
+    };
+    return { generated, result };
+  };
+
+  if (requestBody.stream) {
+    const stream = createResponsesStream({
+      id: responseId,
+      model: requestBody.model || provider.config.defaultModel,
+      keepAliveMs: getEnvInt("STREAM_KEEPALIVE_MS", 15_000),
+    }, async (generating, streamSignal) => {
+      const signal = AbortSignal.any([req.signal, streamSignal]);
+      try {
+        const { generated, result } = await generate(signal, () => generating());
+        info("HTTP", `响应完成 (Responses API 流式, ${generated.provider})`);
+        await logRequestEnd(requestId, req.method, pathname, 200, Date.now() - startTime);
+        return result;
+      } catch (err) {
+        if (isCancelled(req, err) || signal.aborted) {
+          await cancelRequest(req, requestId, startTime);
+          throw err;
+        }
+        const message = err instanceof Error ? err.message : String(err);
+        error("Proxy", `请求处理错误 (${provider.name}, Responses API 流式): ${message}`);
+        await logRequestEnd(requestId, req.method, pathname, 500, Date.now() - startTime, message);
+        throw err;
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Connection": "keep-alive",
+        "X-Accel-Buffering": "no",
+        "Access-Control-Allow-Origin": "*",
+        [PROVIDER_HEADER]: provider.name,
+        "Access-Control-Expose-Headers": PROVIDER_HEADER,
+      },
+    });
+  }
+
+  try {
+    const { generated, result } = await generate(req.signal);
+    info("HTTP", `响应完成 (Responses API, ${result.images.length} 张)`);
+    await logRequestEnd(requestId, req.method, pathname, 200, Date.now() - startTime);
+
+    return new Response(JSON.stringify(buildCompletedResponse(responseId, result)), {
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        ...buildServedHeaders(generated),
+      },
+    });
+  } catch (err) {
+    return await failRequest(req, requestId, err, provider.name, startTime);
+  }
+}
+
+// ================= 异步任务 =================
+
+// POST /v1/jobs：请求体与 /v1/images/generations 相同（另可带 image / images 参考图），立即返回任务
+async function handleCreateJob(req: Request): Promise<Response> {
+  const requestId = generateRequestId();
+  logRequestStart(req, requestId);
+
+  const apiKey = getBearerKey(req);
+  if (!apiKey) {
+    return await rejectRequest(req, requestId, 401, "Authorization header missing");
+  }
+
+  let edit: ImageEditBody;
+  try {
+    edit = await parseImageEditRequestBody(req);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return await rejectRequest(req, requestId, 400, `Invalid request body: ${message}`);
+  }
+  const parsed = parseImageGenerationRequest(edit.body);
+  if (!parsed.ok) return await rejectRequest(req, requestId, 400, parsed.message);
+
+  const input: ImagesApiInput = { request: parsed.value, images: edit.images, mask: edit.mask };
+  // 渠道选择等客户端错误同步返回，不创建任务
+  const route = routeImagesApi(req, requestId, apiKey, input);
+  if (!route.ok) return await rejectRequest(req, requestId, route.status, route.message);
+
+  let job: Job;
+  try {
+    job = createJob(apiKey);
+  } catch (err) {
+    if (err instanceof JobLimitError) return await rejectRequest(req, requestId, 429, err.message);
+    throw err;
+  }
+  info("Jobs", `${requestId} 创建任务 ${job.id} (${route.provider.name})`);
+
+  // 后台执行（不绑定请求的 signal：客户端拿到任务 ID 后断开是正常流程）；结果与错误写入任务
+  generateImagesApi(route, requestId, apiKey, input, {
+    baseUrl: getPublicBaseUrl(req),
+    onProgress: (progress) => updateJobProgress(job.id, progress),
+  }).then(({ generated, body }) => {
+    completeJob(job.id, body, { provider: generated.provider, model: generated.model });
+    info("Jobs", `任务 ${job.id} 完成 (${generated.provider}, ${body.data.length} 张)`);
+  }).catch((err) => {
+    const message = err instanceof Error ? err.message : String(err);
+    failJob(job.id, message);
+    error("Jobs", `任务 ${job.id} 失败: ${message}`);
+  });
+
+  await logRequestEnd(requestId, req.method, new URL(req.url).pathname, 202, 0);
+  return new Response(JSON.stringify(toJobView(job)), {
+    status: 202,
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+      "Location": `/v1/jobs/${job.id}`,
+    },
+  });
+}
+
+// GET /v1/jobs/:id：只有提交任务的 Key 能查询
+function handleGetJob(req: Request, id: string): Response {
+  const headers = {
+    "Content-Type": "application/json",
+    "Cache-Control": "no-cache",
+    "Access-Control-Allow-Origin": "*",
+  };
+  const apiKey = getBearerKey(req);
+  if (!apiKey) {
+    return new Response(JSON.stringify({ error: "Authorization header missing" }), {
+      status: 401,
+      headers,
+    });
+  }
+  const job = getJob(id, apiKey);
+  if (!job) {
+    return new Response(JSON.stringify({ error: `Job not found: ${id}` }), {
+      status: 404,
+      headers,
+    });
+  }
+  return new Response(JSON.stringify(toJobView(job)), { headers });
+}
+
+// ================= 转存文件 =================
+
+// GET /files/:id：转存的生成结果（文件 ID 不可猜测；设置 FILE_URL_SECRET 时还需有效签名）
+async function handleFile(req: Request, id: string): Promise<Response> {
+  const cors = { "Access-Control-Allow-Origin": "*" };
+  const storage = getImageStorage();
+  // ID 格式不合法（含多级路径）时同样返回 404
+  if (!storage || !FILE_ID_REGEX.test(id)) {
+    return new Response("Not Found", { status: 404, headers: cors });
+  }
+
+  const check = await verifyFileUrl(id, new URL(req.url).searchParams);
+  if (!check.ok) return new Response(check.message, { status: check.status, headers: cors });
+
+  // 文件内容不会变化：未签名链接长期缓存，签名链接缓存到过期为止
+  const etag = `"${id}"`;
+  const cacheControl = check.expiresAt
+    ? `private, max-age=${Math.max(0, check.expiresAt - Math.floor(Date.now() / 1000))}`
+    : "public, max-age=31536000, immutable";
+  if (req.headers.get("If-None-Match") === etag) {
+    return new Response(null, {
+      status: 304,
+      headers: { ...cors, "ETag": etag, "Cache-Control": cacheControl },
+    });
+  }
+
+  try {
+    const file = await storage.get(id);
+    if (!file) return new Response("Not Found", { status: 404, headers: cors });
+    return new Response(file.bytes, {
+      headers: {
+        ...cors,
+        "Content-Type": file.mime,
+        "Cache-Control": cacheControl,
+        "ETag": etag,
+      },
     });
+  } catch (err) {
+    error("Storage", `读取文件失败 ${id}: ${err instanceof Error ? err.message : String(err)}`);
+    return new Response("Internal Server Error", { status: 500, headers: cors });
   }
 }
 
+// ================= 状态接口 =================
+
+// 各渠道熔断器与 Key 池状态（Key 池只暴露 alias）
+function handleStatus(): Response {
+  const providers = getProviders().map((p) => ({
+    name: p.name,
+    circuit: getCircuitStatus(p.name),
+    ...(hasKeyPool(p.config) ? { keyPool: getPoolStatus(p.name, p.config) } : {}),
+  }));
+  return new Response(JSON.stringify({ providers }), {
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-cache",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
+
+// ================= 模型列表 =================
+
+// GET /v1/models：携带 Key 时只列出该 Key 能路由到的渠道
+function handleModels(req: Request): Response {
+  const headers = { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" };
+  const apiKey = getBearerKey(req);
+
+  const headerName = req.headers.get(PROVIDER_HEADER)?.trim();
+  const providerHeader = headerName ? getProvider(headerName) : undefined;
+  if (headerName && !providerHeader) {
+    return new Response(
+      JSON.stringify({ error: `Unknown provider in ${PROVIDER_HEADER}: ${headerName}` }),
+      { status: 400, headers },
+    );
+  }
+
+  const providers = filterProvidersForCaller({
+    providerHeader,
+    pooled: isAccessKey(apiKey),
+    detected: matchProvider(apiKey),
+  });
+  return new Response(JSON.stringify(buildModelList(providers)), { headers });
+}
+
 // ================= 启动服务 =================
 
 await initLogger();
@@ -802,8 +1080,31 @@ if (logLevel && logLevel in LogLevel) {
   configureLogger({ level: LogLevel[logLevel as keyof typeof LogLevel] });
 }
 
+// 文件配置：启动时校验失败直接退出；之后文件变更或 SIGHUP 时热加载
+const configFilePath = getConfigFilePath();
+try {
+  if (!await loadConfigFile(configFilePath, getProviders())) {
+    info("Startup", `未找到配置文件 ${configFilePath}，使用内置配置`);
+  }
+  watchConfigFile(configFilePath, getProviders());
+} catch (err) {
+  error("Startup", `配置文件无效: ${err instanceof Error ? err.message : String(err)}`);
+  closeLogger();
+  Deno.exit(1);
+}
+
+// 生成结果存储：配置不完整时直接退出
+try {
+  const storage = getImageStorage();
+  if (storage) info("Startup", `🗄️ 生成结果转存: ${storage.name}`);
+} catch (err) {
+  error("Startup", `图片存储配置无效: ${err instanceof Error ? err.message : String(err)}`);
+  closeLogger();
+  Deno.exit(1);
+}
+
 info("Startup", `🚀 服务启动端口 ${PORT}`);
-info("Startup", "🔧 支持: 火山引擎, Gitee, ModelScope");
+info("Startup", `🔧 支持: ${getProviders().map((p) => p.name).join(", ")}`);
 info("Startup", `📁 日志目录: ./data/logs`);
 
 Deno.addSignalListener("SIGINT", async () => {
@@ -812,6 +1113,11 @@ Deno.addSignalListener("SIGINT", async () => {
   Deno.exit(0);
 });
 
+Deno.addSignalListener("SIGHUP", () => {
+  info("Startup", "收到 SIGHUP, 重新加载配置文件...");
+  reloadConfigFile(configFilePath, getProviders());
+});
+
 Deno.addSignalListener("SIGTERM", async () => {
   info("Startup", "收到 SIGTERM, 关闭服务...");
   await closeLogger();
@@ -829,12 +1135,29 @@ Deno.serve({ port: PORT }, (req: Request) => {
     });
   }
 
+  if (req.method === "GET" && url.pathname === "/status") {
+    return handleStatus();
+  }
+
+  if (req.method === "GET" && url.pathname === "/v1/models") {
+    return handleModels(req);
+  }
+
+  if (req.method === "GET" && url.pathname.startsWith("/files/")) {
+    return handleFile(req, url.pathname.slice("/files/".length));
+  }
+
+  const jobMatch = url.pathname.match(/^\/v1\/jobs\/([\w-]+)$/);
+  if (req.method === "GET" && jobMatch) {
+    return handleGetJob(req, jobMatch[1]!);
+  }
+
   if (req.method === "OPTIONS") {
     return new Response(null, {
       headers: {
         "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Methods": "POST, OPTIONS",
-        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": `Content-Type, Authorization, ${PROVIDER_HEADER}`,
         "Access-Control-Max-Age": "86400",
       }
     });
@@ -845,5 +1168,21 @@ Deno.serve({ port: PORT }, (req: Request) => {
     return new Response("Method Not Allowed", { status: 405 });
   }
 
+  if (url.pathname === "/v1/images/generations") {
+    return handleImageGenerations(req);
+  }
+
+  if (url.pathname === "/v1/images/edits") {
+    return handleImageEdits(req);
+  }
+
+  if (url.pathname === "/v1/jobs") {
+    return handleCreateJob(req);
+  }
+
+  if (url.pathname === "/v1/responses") {
+    return handleResponses(req);
+  }
+
   return handleChatCompletions(req);
 });
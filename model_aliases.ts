@@ -0,0 +1,79 @@
+// ================= 模型别名 =================
+// 客户端使用友好名称（如 seedream-latest、z-image），由服务端映射到具体渠道与上游模型，
+// 上游版本升级时只需修改别名表。
+// - 来源：MODEL_ALIASES 环境变量 + 配置文件 aliases 段（同名时配置文件优先，支持热加载）
+// - 别名名称不区分大小写
+// - 别名可固定渠道与默认尺寸；客户端显式传入的 size 优先
+
+import { type ModelAlias, parseModelAliases } from "./config.ts";
+import { warn } from "./logger.ts";
+import { getProvider, type ProviderAdapter, splitProviderPrefix } from "./provider_registry.ts";
+
+export interface ResolvedAlias {
+  alias: string;
+  provider?: ProviderAdapter;
+  model: string;
+  size?: string;
+}
+
+const envAliases = normalizeKeys(parseModelAliases(Deno.env.get("MODEL_ALIASES")));
+let fileAliases = new Map<string, ModelAlias>();
+
+function normalizeKeys(aliases: Record<string, ModelAlias>): Map<string, ModelAlias> {
+  return new Map(Object.entries(aliases).map(([name, alias]) => [name.toLowerCase(), alias]));
+}
+
+// 由配置文件加载/热加载调用；传入空对象即清除配置文件中的别名
+export function setFileModelAliases(aliases: Record<string, ModelAlias>): void {
+  fileAliases = normalizeKeys(aliases);
+}
+
+// 当前生效的别名表（配置文件覆盖环境变量）
+export function getModelAliases(): Map<string, ModelAlias> {
+  return new Map([...envAliases, ...fileAliases]);
+}
+
+/**
+ * 解析模型别名
+ * @returns 不是别名时返回 undefined
+ */
+export function resolveModelAlias(model: string | undefined): ResolvedAlias | undefined {
+  const name = model?.trim();
+  if (!name) return undefined;
+  const alias = fileAliases.get(name.toLowerCase()) ?? envAliases.get(name.toLowerCase());
+  if (!alias) return undefined;
+
+  let provider: ProviderAdapter | undefined;
+  let target = alias.model;
+  if (alias.provider) {
+    provider = getProvider(alias.provider);
+    if (!provider) warn("Alias", `别名 ${name} 指定的渠道不存在: ${alias.provider}，忽略渠道`);
+  } else {
+    // 环境变量写法 "provider/model"：前缀是已注册渠道名时才视为固定渠道
+    const prefixed = splitProviderPrefix(alias.model);
+    if (prefixed.provider && prefixed.model) {
+      provider = prefixed.provider;
+      target = prefixed.model;
+    }
+  }
+
+  return { alias: name, provider, model: target, ...(alias.size ? { size: alias.size } : {}) };
+}
+
+/**
+ * 将请求中的别名替换为实际模型（原地修改）
+ * - 固定渠道的别名改写为 "provider/model"，交由渠道选择逻辑处理（与显式指定渠道一致）
+ * - 客户端未指定 size 时使用别名的默认尺寸
+ * @returns 命中的别名，未命中返回 undefined
+ */
+export function applyModelAlias(
+  request: { model?: string; size?: string },
+): ResolvedAlias | undefined {
+  const resolved = resolveModelAlias(request.model);
+  if (!resolved) return undefined;
+  request.model = resolved.provider
+    ? `${resolved.provider.name}/${resolved.model}`
+    : resolved.model;
+  if (!request.size && resolved.size) request.size = resolved.size;
+  return resolved;
+}
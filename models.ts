@@ -0,0 +1,89 @@
+// ================= 模型列表（GET /v1/models） =================
+// 按 OpenAI 列表格式返回可路由的模型，供客户端（Cherry Studio、LobeChat 等）填充模型选择器：
+// - 各渠道的 defaultModel + supportedModels；多个渠道提供同名模型时，后出现的渠道以 "渠道/模型" 列出
+// - 模型别名（固定渠道的别名归属该渠道）
+// - 可按调用方的 Key / X-ImgRouter-Provider 过滤到其能路由到的渠道
+
+import { hasKeyPool } from "./key_pool.ts";
+import { getModelAliases, resolveModelAlias } from "./model_aliases.ts";
+import { getProviders, type ProviderAdapter } from "./provider_registry.ts";
+
+export interface ModelEntry {
+  id: string;
+  object: "model";
+  created: number;
+  owned_by: string;
+  // 实际出图的渠道与上游模型
+  provider: string;
+  root: string;
+  // 别名条目：别名所指向的模型
+  alias_of?: string;
+}
+
+export interface ModelList {
+  object: "list";
+  data: ModelEntry[];
+}
+
+// 列表中的 created 统一使用服务启动时间
+const STARTED_AT = Math.floor(Date.now() / 1000);
+
+/**
+ * 构造模型列表
+ * @param providers 参与列出的渠道（已按调用方过滤）；未固定渠道的别名只要有可用渠道就列出
+ */
+export function buildModelList(providers: readonly ProviderAdapter[]): ModelList {
+  const data: ModelEntry[] = [];
+  const seen = new Set<string>();
+
+  const push = ({ id, ...rest }: Omit<ModelEntry, "object" | "created">): void => {
+    const key = id.toLowerCase();
+    if (seen.has(key)) return;
+    seen.add(key);
+    data.push({ id, object: "model", created: STARTED_AT, ...rest });
+  };
+
+  for (const provider of providers) {
+    const { defaultModel, supportedModels } = provider.config;
+    for (const model of new Set([defaultModel, ...supportedModels])) {
+      const id = seen.has(model.toLowerCase()) ? `${provider.name}/${model}` : model;
+      push({ id, owned_by: provider.name, provider: provider.name, root: model });
+    }
+  }
+
+  if (providers.length > 0) {
+    for (const name of getModelAliases().keys()) {
+      const alias = resolveModelAlias(name);
+      if (!alias) continue;
+      if (alias.provider && !providers.includes(alias.provider)) continue;
+      const owner = alias.provider?.name ?? providers[0]!.name;
+      push({
+        id: alias.alias,
+        owned_by: owner,
+        provider: owner,
+        root: alias.model,
+        alias_of: alias.provider ? `${alias.provider.name}/${alias.model}` : alias.model,
+      });
+    }
+  }
+
+  return { object: "list", data };
+}
+
+/**
+ * 调用方可路由到的渠道
+ * - 显式渠道头：只列该渠道
+ * - 访问令牌：只列配置了 Key 池的渠道
+ * - 可识别的 Key：只列对应渠道；未携带 Key 或无法识别时列出全部
+ */
+export function filterProvidersForCaller(options: {
+  providerHeader?: ProviderAdapter;
+  pooled?: boolean;
+  detected?: ProviderAdapter;
+}): ProviderAdapter[] {
+  const all = [...getProviders()];
+  if (options.providerHeader) return [options.providerHeader];
+  if (options.pooled) return all.filter((p) => hasKeyPool(p.config));
+  if (options.detected) return [options.detected];
+  return all;
+}
@@ -1,3 +1,7 @@
+import { MAX_IMAGES_PER_REQUEST } from "./images_api.ts";
+import { type GenerationParams, parseGenerationParams } from "./generation_params.ts";
+import { parsePromptFlags, type PromptFlags } from "./prompt_flags.ts";
+
 export type NormalizedPart =
   | { kind: "text"; text: string }
   | { kind: "image"; url: string; detail?: string };
@@ -10,6 +14,10 @@ export interface NormalizedMessage {
 export interface NormalizedChatRequest {
   model?: string;
   size?: string;
+  // 生成图片数（未指定为 1）
+  n?: number;
+  // 通用生成参数（seed / negative_prompt 等，按渠道映射到上游字段）
+  params?: GenerationParams;
   stream: boolean;
   messages: NormalizedMessage[];
   // 保留原始字段（便于后续透传/调试）
@@ -121,6 +129,24 @@ function normalizeContentToParts(content: unknown): NormalizedPart[] {
   return parts;
 }
 
+// 生成图片数 n：1..MAX_IMAGES_PER_REQUEST 的整数
+function parseImageCount(v: unknown): number | undefined {
+  if (v === undefined || v === null) return undefined;
+  if (typeof v !== "number" || !Number.isInteger(v) || v < 1 || v > MAX_IMAGES_PER_REQUEST) {
+    throw new Error(
+      `Invalid request body: n must be an integer between 1 and ${MAX_IMAGES_PER_REQUEST}`,
+    );
+  }
+  return v;
+}
+
+// 通用生成参数；请求中没有任何参数时返回 undefined
+function readGenerationParams(input: Record<string, unknown>): GenerationParams | undefined {
+  const parsed = parseGenerationParams(input);
+  if (!parsed.ok) throw new Error(`Invalid request body: ${parsed.message}`);
+  return Object.keys(parsed.value).length > 0 ? parsed.value : undefined;
+}
+
 export function normalizeChatRequest(input: unknown): NormalizedChatRequest {
   if (!isRecord(input)) {
     throw new Error("Invalid request body: expected JSON object");
@@ -129,6 +155,8 @@ export function normalizeChatRequest(input: unknown): NormalizedChatRequest {
   const extra: Record<string, unknown> = { ...input };
   const model = asString(input.model);
   const size = asString(input.size);
+  const n = parseImageCount(input.n);
+  const params = readGenerationParams(input);
   const stream = input.stream === true;
 
   const rawMessages = input.messages;
@@ -145,21 +173,184 @@ export function normalizeChatRequest(input: unknown): NormalizedChatRequest {
     return { role, parts };
   });
 
-  return { model, size, stream, messages, extra };
+  return {
+    model,
+    size,
+    ...(n !== undefined ? { n } : {}),
+    ...(params ? { params } : {}),
+    stream,
+    messages,
+    extra,
+  };
 }
 
+// Responses API 的 image_generation 工具配置（取 size）
+function findImageGenerationTool(tools: unknown): Record<string, unknown> | undefined {
+  if (!Array.isArray(tools)) return undefined;
+  for (const tool of tools) {
+    if (isRecord(tool) && asString(tool.type) === "image_generation") return tool;
+  }
+  return undefined;
+}
+
+/**
+ * Responses API（/v1/responses）请求归一化
+ * - input 可为字符串，或消息数组（{ role, content }，content 为 input_text / input_image 片段）
+ * - 数组中直接出现的 input_text / input_image 片段视为 user 消息
+ * - instructions 作为 system 消息；size 优先取 image_generation 工具配置
+ */
+export function normalizeResponsesRequest(input: unknown): NormalizedChatRequest {
+  if (!isRecord(input)) {
+    throw new Error("Invalid request body: expected JSON object");
+  }
+
+  const extra: Record<string, unknown> = { ...input };
+  const model = asString(input.model);
+  const tool = findImageGenerationTool(input.tools);
+  const size = asString(tool?.size) ?? asString(input.size);
+  const params = readGenerationParams(input);
+  const stream = input.stream === true;
+
+  const rawInput = input.input;
+  const messages: NormalizedMessage[] = [];
+  const instructions = asString(input.instructions);
+  if (instructions && instructions.trim() !== "") {
+    messages.push({ role: "system", parts: [{ kind: "text", text: instructions }] });
+  }
+
+  if (typeof rawInput === "string") {
+    messages.push({ role: "user", parts: normalizeContentToParts(rawInput) });
+  } else if (Array.isArray(rawInput)) {
+    // 连续的裸片段合并为同一条 user 消息
+    let loose: NormalizedPart[] | undefined;
+    for (const item of rawInput) {
+      if (
+        isRecord(item) && (asString(item.role) !== undefined || asString(item.type) === "message")
+      ) {
+        loose = undefined;
+        messages.push({
+          role: asString(item.role) ?? "user",
+          parts: normalizeContentToParts(item.content),
+        });
+        continue;
+      }
+      // 历史生成结果转为 assistant 消息（多轮编辑时作为参考图，见 extractLastUserPromptAndImages）
+      if (isRecord(item) && asString(item.type) === "image_generation_call") {
+        const result = asString(item.result);
+        if (result) {
+          loose = undefined;
+          const url = result.startsWith("data:") ? result : `data:image/png;base64,${result}`;
+          messages.push({
+            role: "assistant",
+            parts: [{ kind: "text", text: `![Generated Image](${url})` }],
+          });
+        }
+        continue;
+      }
+      // 其他输出项忽略
+      const parts = normalizeContentToParts(item);
+      if (parts.length === 0) continue;
+      if (!loose) {
+        loose = [];
+        messages.push({ role: "user", parts: loose });
+      }
+      loose.push(...parts);
+    }
+  } else {
+    throw new Error("Invalid request body: input must be a string or an array");
+  }
+
+  return { model, size, ...(params ? { params } : {}), stream, messages, extra };
+}
+
+// 多轮编辑模式（CHAT_ITERATIVE_EDIT）：
+// - off：只看最后一条 user 消息（默认）
+// - image：最后一条 user 消息没有图片时，以最近一条 assistant 消息中生成的图片作为参考图
+// - merge：在 image 的基础上，将之前各轮 user 消息的 prompt 依次合并到本轮 prompt 之前
+export type IterativeEditMode = "off" | "image" | "merge";
+
+export function parseIterativeEditMode(
+  value: string | undefined,
+  fallback: IterativeEditMode,
+): IterativeEditMode {
+  const v = (value ?? "").trim().toLowerCase();
+  if (v === "off" || v === "false" || v === "0") return "off";
+  if (v === "image" || v === "true" || v === "1") return "image";
+  if (v === "merge") return "merge";
+  return fallback;
+}
+
+// 生成结果在 chat 响应中的 Markdown（见 renderImagesAsMarkdown）
+const GENERATED_IMAGE_REGEX = /!\[Generated Image\]\(([^)\s]+)\)/;
+
+function textOf(msg: NormalizedMessage): string {
+  return msg.parts.filter((p) => p.kind === "text").map((p) =>
+    (p as { kind: "text"; text: string }).text
+  ).join("\n").trim();
+}
+
+// 最近一条 assistant 消息中生成的图片（多张时取第一张）
+function findPreviousGeneratedImage(
+  messages: NormalizedMessage[],
+  before: number,
+): string | undefined {
+  for (let i = before - 1; i >= 0; i--) {
+    const msg = messages[i]!;
+    if (msg.role !== "assistant") continue;
+    const match = textOf(msg).match(GENERATED_IMAGE_REGEX);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * 提取最后一条 user 消息的 prompt 与参考图
+ * - 末尾的 --ar / --seed / --no / --n / --model 参数从 prompt 中去除，放入 flags（见 prompt_flags.ts）
+ * - iterativeEdit 不为 off 时沿用上一轮生成的图片继续编辑（fromHistory 为 true）
+ */
 export function extractLastUserPromptAndImages(
   messages: NormalizedMessage[],
-): { prompt: string; images: string[] } {
+  iterativeEdit: IterativeEditMode = "off",
+): { prompt: string; images: string[]; flags: PromptFlags; fromHistory: boolean } {
   for (let i = messages.length - 1; i >= 0; i--) {
     const msg = messages[i]!;
     if (msg.role !== "user") continue;
-    const texts = msg.parts.filter((p) => p.kind === "text").map((p) => (p as { kind: "text"; text: string }).text);
-    const prompt = texts.join("\n").trim();
-    const images = msg.parts.filter((p) => p.kind === "image").map((p) => (p as { kind: "image"; url: string }).url).filter((u) => typeof u === "string" && u.trim() !== "");
-    return { prompt, images };
+    const { prompt, flags } = parsePromptFlags(textOf(msg));
+    const images = msg.parts.filter((p) => p.kind === "image").map((p) =>
+      (p as { kind: "image"; url: string }).url
+    ).filter((u) => typeof u === "string" && u.trim() !== "");
+    if (iterativeEdit === "off" || images.length > 0) {
+      return { prompt, images, flags, fromHistory: false };
+    }
+
+    const previous = findPreviousGeneratedImage(messages, i);
+    if (!previous) return { prompt, images, flags, fromHistory: false };
+    if (iterativeEdit === "image") {
+      return { prompt, images: [previous], flags, fromHistory: true };
+    }
+
+    // 合并之前各轮的 prompt（去除各自的参数；参数只取本轮）
+    const earlier = messages.slice(0, i)
+      .filter((m) => m.role === "user")
+      .map((m) => parsePromptFlags(textOf(m)).prompt)
+      .filter((p) => p !== "");
+    return {
+      prompt: [...earlier, prompt].filter((p) => p !== "").join("\n"),
+      images: [previous],
+      flags,
+      fromHistory: true,
+    };
   }
-  return { prompt: "", images: [] };
+  return { prompt: "", images: [], flags: {}, fromHistory: false };
+}
+
+// system / developer 消息的文本（多条以换行拼接），用作提示词模板（见 prompt_template.ts）
+export function extractSystemPrompt(messages: NormalizedMessage[]): string {
+  return messages
+    .filter((m) => m.role === "system" || m.role === "developer")
+    .map(textOf)
+    .filter((t) => t !== "")
+    .join("\n");
 }
 
 // 将图片（dataURL）注入到最后一个 user 消息中（multipart 场景使用）
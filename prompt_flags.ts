@@ -0,0 +1,119 @@
+// ================= 提示词参数（--ar / --seed / --no / --n / --model） =================
+// 普通聊天客户端无法设置额外的 JSON 字段，用户可在消息末尾写 Midjourney 风格的参数：
+//   一只猫在窗台上 --ar 16:9 --seed 42 --no 文字, 水印 --n 4 --model seedream
+// 从第一个可识别的参数起，之后的内容均视为参数（不发送给上游）；参数值为到下一个 "--" 之前的文本。
+// 提示词参数优先于请求体中的同名字段（聊天客户端通常总会带上所选模型）。
+
+import { parseGenerationParams } from "./generation_params.ts";
+import { parseSizeSpec } from "./image_size.ts";
+import { MAX_IMAGES_PER_REQUEST } from "./images_api.ts";
+import type { NormalizedChatRequest } from "./normalizer.ts";
+
+// 参数原始值（校验在 applyPromptFlags 中进行）
+export interface PromptFlags {
+  aspectRatio?: string;
+  seed?: string;
+  negativePrompt?: string;
+  n?: string;
+  model?: string;
+  // 无法识别的参数名（已从提示词中去除，仅记录日志）
+  ignored?: string[];
+}
+
+type FlagField = Exclude<keyof PromptFlags, "ignored">;
+
+// 参数名（含别名）→ 字段
+const FLAG_NAMES: Record<string, FlagField> = {
+  ar: "aspectRatio",
+  aspect: "aspectRatio",
+  seed: "seed",
+  no: "negativePrompt",
+  n: "n",
+  model: "model",
+};
+
+// 空白之后的 --name（name 之后须为空白或结尾）
+const FLAG_REGEX = /(?:^|\s)--([a-zA-Z]+)(?=\s|$)/g;
+
+/**
+ * 从提示词末尾解析参数
+ * @returns prompt 为去除参数后的提示词；没有可识别的参数时原样返回
+ */
+export function parsePromptFlags(text: string): { prompt: string; flags: PromptFlags } {
+  const matches = [...text.matchAll(FLAG_REGEX)];
+  const start = matches.findIndex((m) => FLAG_NAMES[m[1]!.toLowerCase()] !== undefined);
+  if (start < 0) return { prompt: text, flags: {} };
+
+  const flags: PromptFlags = {};
+  const tail = matches.slice(start);
+  tail.forEach((m, i) => {
+    const name = m[1]!.toLowerCase();
+    const valueStart = m.index! + m[0].length;
+    const valueEnd = i + 1 < tail.length ? tail[i + 1]!.index! : text.length;
+    const value = text.slice(valueStart, valueEnd).trim();
+    const field = FLAG_NAMES[name];
+    if (field) flags[field] = value;
+    else (flags.ignored ??= []).push(`--${name}`);
+  });
+
+  return { prompt: text.slice(0, tail[0]!.index!).trim(), flags };
+}
+
+/**
+ * 将提示词参数写入请求（模型 / 尺寸 / 图片数 / 生成参数）
+ * @returns 参数值不合法时返回错误信息
+ */
+export function applyPromptFlags(
+  request: NormalizedChatRequest,
+  flags: PromptFlags,
+): string | undefined {
+  if (flags.model !== undefined) {
+    if (flags.model === "") return "Invalid --model: empty";
+    request.model = flags.model;
+  }
+
+  if (flags.aspectRatio !== undefined) {
+    if (parseSizeSpec(flags.aspectRatio)?.kind !== "ratio") {
+      return `Invalid --ar: ${flags.aspectRatio} (expected W:H, e.g. 16:9)`;
+    }
+    request.size = flags.aspectRatio;
+  }
+
+  if (flags.n !== undefined) {
+    const n = Number(flags.n);
+    if (!/^\d+$/.test(flags.n) || n < 1 || n > MAX_IMAGES_PER_REQUEST) {
+      return `Invalid --n: ${flags.n} (expected an integer between 1 and ${MAX_IMAGES_PER_REQUEST})`;
+    }
+    request.n = n;
+  }
+
+  if (flags.seed !== undefined) {
+    const parsed = /^-?\d+$/.test(flags.seed)
+      ? parseGenerationParams({ seed: Number(flags.seed) })
+      : undefined;
+    if (!parsed?.ok) return `Invalid --seed: ${flags.seed}`;
+    request.params = { ...request.params, ...parsed.value };
+  }
+
+  if (flags.negativePrompt !== undefined) {
+    if (flags.negativePrompt === "") return "Invalid --no: empty";
+    request.params = { ...request.params, negativePrompt: flags.negativePrompt };
+  }
+
+  return undefined;
+}
+
+// 日志用：还原为参数文本
+export function formatPromptFlags(flags: PromptFlags): string {
+  const names: Record<FlagField, string> = {
+    aspectRatio: "ar",
+    seed: "seed",
+    negativePrompt: "no",
+    n: "n",
+    model: "model",
+  };
+  return (Object.keys(names) as FlagField[])
+    .filter((field) => flags[field] !== undefined)
+    .map((field) => `--${names[field]} ${flags[field]}`)
+    .join(" ");
+}
@@ -0,0 +1,80 @@
+// ================= 提示词模板 =================
+// 将 system 消息与服务端模板套用到提取出的 prompt 上，团队可统一风格或追加安全后缀，
+// 无需每个用户重复输入。由内向外依次套用：
+// 1. system 消息（chat 的 system / developer 消息、Responses API 的 instructions）：
+//    含 {{prompt}} 时作为模板，否则作为前缀；CHAT_SYSTEM_PROMPT=off 时忽略
+// 2. 模型 / 别名模板：按客户端请求的模型名匹配（不区分大小写），未命中时使用 "*"
+// 3. 客户端 Key 模板：按 Authorization 中的 Key 精确匹配
+// 服务端模板来自配置文件 prompts 段（支持热加载）。
+
+import { getEnvBool, type PromptTemplate, type PromptTemplates } from "./config.ts";
+
+export const PROMPT_PLACEHOLDER = "{{prompt}}";
+
+export interface ComposedPrompt {
+  prompt: string;
+  // 套用的模板（日志用，不含 Key 本身）
+  applied: string[];
+}
+
+let modelTemplates = new Map<string, PromptTemplate>();
+let keyTemplates = new Map<string, PromptTemplate>();
+
+// 由配置文件加载/热加载调用；传入空对象即清除全部模板
+export function setFilePromptTemplates(templates: PromptTemplates): void {
+  modelTemplates = new Map(
+    Object.entries(templates.models ?? {}).map(([name, t]) => [name.toLowerCase(), t]),
+  );
+  keyTemplates = new Map(Object.entries(templates.keys ?? {}));
+}
+
+// 默认套用；客户端自带与画图无关的 system 消息（如 "You are a helpful assistant."）时可关闭
+export function isSystemPromptEnabled(): boolean {
+  return getEnvBool("CHAT_SYSTEM_PROMPT", true);
+}
+
+/**
+ * 套用单个模板：先替换 {{prompt}}，再以换行拼接前后缀（空白部分省略）
+ */
+export function applyPromptTemplate(prompt: string, template: PromptTemplate): string {
+  // 不用 replaceAll：prompt 中的 "$&" 等会被当作替换模式
+  const body = template.template
+    ? template.template.split(PROMPT_PLACEHOLDER).join(prompt)
+    : prompt;
+  return [template.prefix, body, template.suffix]
+    .map((part) => part?.trim() ?? "")
+    .filter((part) => part !== "")
+    .join("\n");
+}
+
+// system 消息：含 {{prompt}} 时作为模板，否则作为前缀
+export function systemPromptTemplate(text: string): PromptTemplate {
+  return text.includes(PROMPT_PLACEHOLDER) ? { template: text } : { prefix: text };
+}
+
+/**
+ * 组合最终 prompt
+ * @param options.model 客户端请求的模型名（别名解析与渠道选择之前）
+ */
+export function composePrompt(
+  prompt: string,
+  options: { system?: string; model?: string; apiKey?: string },
+): ComposedPrompt {
+  const layers: [string, PromptTemplate][] = [];
+
+  const system = options.system?.trim();
+  if (system) layers.push(["system 消息", systemPromptTemplate(system)]);
+
+  const model = options.model?.trim().toLowerCase();
+  const byModel = model ? modelTemplates.get(model) : undefined;
+  if (byModel) layers.push([`模型 ${options.model!.trim()}`, byModel]);
+  else if (modelTemplates.has("*")) layers.push(["默认模板", modelTemplates.get("*")!]);
+
+  const byKey = options.apiKey ? keyTemplates.get(options.apiKey) : undefined;
+  if (byKey) layers.push(["客户端 Key", byKey]);
+
+  return {
+    prompt: layers.reduce((p, [, template]) => applyPromptTemplate(p, template), prompt),
+    applied: layers.map(([name]) => name),
+  };
+}
@@ -0,0 +1,72 @@
+// ================= Gitee（模力方舟）渠道 =================
+
+import { GiteeConfig } from "./config.ts";
+import { debug, error } from "./logger.ts";
+import {
+  buildMaskFields,
+  buildParamFields,
+  type GeneratedImage,
+  type ProviderAdapter,
+} from "./provider_registry.ts";
+import { fetchWithRetry, UpstreamHttpError } from "./upstream.ts";
+
+const GITEE_KEY_REGEX = /^[a-zA-Z0-9]{30,60}$/;
+
+export const GiteeProvider: ProviderAdapter = {
+  name: "Gitee",
+  envPrefix: "GITEE",
+  config: GiteeConfig,
+
+  detect(apiKey) {
+    return GITEE_KEY_REGEX.test(apiKey);
+  },
+
+  buildRequest(ctx) {
+    return {
+      model: ctx.model,
+      prompt: ctx.prompt || "A beautiful scenery",
+      // 图生图/编辑：尽量按 OpenAI 兼容扩展字段传递（不同上游可能字段名不同，但通常会忽略未知字段）
+      ...(ctx.images.length > 0 ? { image: ctx.images[0] } : {}),
+      ...buildMaskFields(ctx, GiteeConfig),
+      ...buildParamFields(ctx, GiteeConfig),
+      size: ctx.size,
+      n: ctx.n,
+      response_format: "url",
+    };
+  },
+
+  async call(ctx, body) {
+    debug("Gitee", `发送请求到: ${GiteeConfig.apiUrl}`);
+
+    const response = await fetchWithRetry(GiteeConfig.apiUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${ctx.apiKey}`,
+        "User-Agent": "ImgRouter/1.0",
+      },
+      body: JSON.stringify(body),
+    }, ctx.upstream);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      error("Gitee", `API 错误: ${response.status}`);
+      throw new UpstreamHttpError(
+        `Gitee API Error (${response.status}): ${errorText}`,
+        response.status,
+      );
+    }
+
+    const responseText = await response.text();
+    return JSON.parse(responseText);
+  },
+
+  parseResult(data) {
+    const items = (data as { data?: unknown } | null)?.data;
+    if (!Array.isArray(items) || items.length === 0) {
+      error("Gitee", "返回数据格式异常");
+      throw new Error(`Gitee API 返回数据格式异常: ${JSON.stringify(data)}`);
+    }
+    return items as GeneratedImage[];
+  },
+};
@@ -0,0 +1,263 @@
+// ================= ModelScope（魔塔）渠道 =================
+
+import { ModelScopeConfig } from "./config.ts";
+import { debug, error, info, warn } from "./logger.ts";
+import {
+  buildMaskFields,
+  buildParamFields,
+  type GeneratedImage,
+  type GenerationContext,
+  type ProviderAdapter,
+} from "./provider_registry.ts";
+import { delay, fetchWithRetry, UpstreamHttpError } from "./upstream.ts";
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function extractImages(payload: unknown): GeneratedImage[] {
+  const out: GeneratedImage[] = [];
+
+  const pushAny = (v: unknown): void => {
+    if (!v) return;
+    if (typeof v === "string") {
+      if (v.startsWith("data:")) out.push({ b64_json: v });
+      else out.push({ url: v });
+      return;
+    }
+    if (isRecord(v)) {
+      const url = typeof v.url === "string" ? v.url : undefined;
+      const b64 = typeof v.b64_json === "string"
+        ? v.b64_json
+        : (typeof v.base64 === "string" ? v.base64 : undefined);
+      if (url || b64) out.push({ url, b64_json: b64 });
+    }
+  };
+
+  const tryArray = (arr: unknown): void => {
+    if (!Array.isArray(arr)) return;
+    for (const it of arr) pushAny(it);
+  };
+
+  const root = isRecord(payload) ? payload : {};
+  const output = isRecord(root.output) ? root.output : {};
+
+  tryArray(root.output_images);
+  tryArray(output.output_images);
+  tryArray(output.images);
+  tryArray(root.images);
+  tryArray(root.data);
+
+  pushAny(root.output_image);
+  pushAny(output.output_image);
+  pushAny(output.image);
+
+  return out.filter((x) =>
+    (typeof x.url === "string" && x.url.trim() !== "") ||
+    (typeof x.b64_json === "string" && x.b64_json.trim() !== "")
+  );
+}
+
+// ModelScope 的 image_url 通常期望可被其服务端拉取的 http(s) URL；dataURL/base64 建议走 image 字段。
+const isHttpUrl = (v: string): boolean => v.startsWith("http://") || v.startsWith("https://");
+
+function splitImages(images: string[]): { imageUrlList: string[]; rawImage?: string } {
+  return {
+    imageUrlList: images.filter(isHttpUrl),
+    rawImage: images.find((v) => !isHttpUrl(v)),
+  };
+}
+
+// 优先策略：有 http(s) URL 则走 image_url；否则（dataURL/base64）走 image
+function prefersImageUrl(ctx: GenerationContext): boolean {
+  return splitImages(ctx.images).imageUrlList.length > 0;
+}
+
+// ModelScope 的 Qwen Image Edit 系列通常走 /images/generations，并使用 image_url 传入参考图
+// 参考：ModelScope 社区示例（/v1/images/generations + image_url）
+// https://modelscope.csdn.net/691c36ee82fbe0098caca391.html
+function buildSubmitBody(ctx: GenerationContext, useImageUrl: boolean): Record<string, unknown> {
+  const { imageUrlList, rawImage } = splitImages(ctx.images);
+  const body: Record<string, unknown> = {
+    model: ctx.model,
+    prompt: ctx.prompt || "A beautiful scenery",
+    response_format: "url",
+    size: ctx.size,
+    n: ctx.n,
+    ...buildMaskFields(ctx, ModelScopeConfig),
+    ...buildParamFields(ctx, ModelScopeConfig),
+  };
+
+  if (useImageUrl) {
+    if (imageUrlList.length > 0) body.image_url = imageUrlList;
+    // 兜底：少数情况下（客户端只给 dataURL）也允许把 dataURL 放入 image_url 试一次
+    else if (rawImage) body.image_url = [rawImage];
+  } else {
+    if (rawImage) body.image = rawImage;
+    // 如果只有 http(s) URL，也兜底传到 image（部分网关可能支持）
+    else if (imageUrlList.length > 0) body.image = imageUrlList[0];
+  }
+
+  return body;
+}
+
+async function submit(ctx: GenerationContext, body: Record<string, unknown>): Promise<Response> {
+  return await fetchWithRetry(`${ModelScopeConfig.apiUrl}/images/generations`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${ctx.apiKey}`,
+      "X-ModelScope-Async-Mode": "true",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  }, ctx.upstream);
+}
+
+async function pollTask(ctx: GenerationContext, taskId: string): Promise<unknown> {
+  const maxAttempts = 60;
+  let pollingAttempts = 0;
+
+  // ModelScope 文档/示例里图像任务通常使用 image_generation（包括 image edit 模型）
+  const defaultTaskType = "image_generation";
+
+  for (let i = 0; i < maxAttempts; i++) {
+    // 轮询同样受请求总时限约束，客户端断开时立即停止
+    if (Date.now() + 5000 >= ctx.upstream.deadline) break;
+    await delay(5000, ctx.upstream.signal, "ModelScope");
+    pollingAttempts++;
+
+    const configuredTaskType = (Deno.env.get("MODELSCOPE_TASK_TYPE") ?? defaultTaskType).trim();
+    const baseHeaders: Record<string, string> = {
+      "Authorization": `Bearer ${ctx.apiKey}`,
+    };
+    const headersWithType = configuredTaskType
+      ? { ...baseHeaders, "X-ModelScope-Task-Type": configuredTaskType }
+      : baseHeaders;
+
+    // 有些场景 task_type 可能不需要/不匹配：失败时自动降级为不带该头再试一次
+    let checkResponse = await fetchWithRetry(`${ModelScopeConfig.apiUrl}/tasks/${taskId}`, {
+      method: "GET",
+      headers: headersWithType,
+    }, ctx.upstream);
+    if (!checkResponse.ok && configuredTaskType) {
+      checkResponse = await fetchWithRetry(`${ModelScopeConfig.apiUrl}/tasks/${taskId}`, {
+        method: "GET",
+        headers: baseHeaders,
+      }, ctx.upstream);
+    }
+
+    if (!checkResponse.ok) {
+      warn("ModelScope", `轮询警告: ${checkResponse.status}`);
+      continue;
+    }
+
+    const checkData = await checkResponse.json();
+    const status = checkData.task_status;
+
+    ctx.onProgress?.({
+      stage: "polling",
+      provider: "ModelScope",
+      taskId,
+      taskStatus: typeof status === "string" ? status : undefined,
+      attempt: pollingAttempts,
+    });
+
+    if (status === "SUCCEED") {
+      info("ModelScope", `任务成功完成, 耗时: ${pollingAttempts}次轮询`);
+      return checkData;
+    } else if (status === "FAILED") {
+      error("ModelScope", "任务失败");
+      throw new Error(`ModelScope Task Failed: ${JSON.stringify(checkData)}`);
+    } else {
+      debug("ModelScope", `状态: ${status} (第${i + 1}次)`);
+    }
+  }
+
+  error("ModelScope", "任务超时");
+  throw new Error("ModelScope Task Timeout");
+}
+
+export const ModelScopeProvider: ProviderAdapter = {
+  name: "ModelScope",
+  envPrefix: "MODELSCOPE",
+  config: ModelScopeConfig,
+
+  detect(apiKey) {
+    return apiKey.startsWith("ms-");
+  },
+
+  buildRequest(ctx) {
+    return buildSubmitBody(ctx, prefersImageUrl(ctx));
+  },
+
+  async call(ctx, body) {
+    const preferImageUrl = prefersImageUrl(ctx);
+    const { imageUrlList, rawImage } = splitImages(ctx.images);
+
+    debug(
+      "ModelScope",
+      `提交生成: model=${ctx.model} prefer=${
+        preferImageUrl ? "image_url" : "image"
+      } image_url_count=${imageUrlList.length} raw_image_len=${rawImage?.length ?? 0}`,
+    );
+
+    let submitResponse = await submit(ctx, body);
+
+    // 轻量兜底：如果 400 且有参考图，则尝试切换字段再提交一次
+    if (!submitResponse.ok && submitResponse.status === 400) {
+      const firstText = await submitResponse.text().catch(() => "");
+      const shouldRetry = (rawImage != null) || (imageUrlList.length > 0);
+      if (!shouldRetry) {
+        // 没有可重试条件：直接抛出首错
+        throw new UpstreamHttpError(
+          `ModelScope Submit Error (${submitResponse.status}): ${firstText}`,
+          submitResponse.status,
+        );
+      }
+
+      warn(
+        "ModelScope",
+        `首次提交 400，尝试切换字段重试一次。first_error=${firstText || "<empty>"}`,
+      );
+      submitResponse = await submit(ctx, buildSubmitBody(ctx, !preferImageUrl));
+    }
+
+    if (!submitResponse.ok) {
+      const errorText = await submitResponse.text().catch(() => "");
+      throw new UpstreamHttpError(
+        `ModelScope Submit Error (${submitResponse.status}): ${errorText}`,
+        submitResponse.status,
+      );
+    }
+
+    const submitData = await submitResponse.json();
+
+    // 兼容：如果不返回 task_id（同步返回），直接尝试解析图片
+    const taskId = submitData.task_id;
+    if (!taskId) {
+      if (extractImages(submitData).length > 0) return submitData;
+      throw new Error(
+        `ModelScope unexpected response without task_id: ${
+          JSON.stringify(Object.keys(submitData ?? {}))
+        }`,
+      );
+    }
+
+    info("ModelScope", `任务已提交, Task ID: ${taskId}`);
+    ctx.onProgress?.({ stage: "submitted", provider: "ModelScope", taskId });
+    return await pollTask(ctx, taskId);
+  },
+
+  parseResult(data) {
+    const imageData = extractImages(data);
+    if (imageData.length === 0) {
+      // 帮助排查：仅打印 key，不打印完整 payload（避免日志爆炸）
+      const keys = Object.keys(isRecord(data) ? data : {}).slice(0, 30);
+      warn(
+        "ModelScope",
+        `任务 SUCCEED 但未解析到图片输出，checkData keys=${JSON.stringify(keys)}`,
+      );
+    }
+    return imageData;
+  },
+};
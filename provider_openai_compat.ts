@@ -0,0 +1,79 @@
+// ================= OpenAI 兼容图像渠道 =================
+// 适配任意实现 POST {baseUrl}/images/generations 的上游，配置见 config.ts 中 OpenAICompatConfig。
+
+import type { OpenAICompatProviderConfig } from "./config.ts";
+import { debug } from "./logger.ts";
+import {
+  buildMaskFields,
+  buildParamFields,
+  type GeneratedImage,
+  type ProviderAdapter,
+} from "./provider_registry.ts";
+import { fetchWithRetry, UpstreamHttpError } from "./upstream.ts";
+
+export function createOpenAICompatProvider(config: OpenAICompatProviderConfig): ProviderAdapter {
+  let keyRegex: RegExp | undefined;
+  if (config.keyPattern) {
+    try {
+      keyRegex = new RegExp(config.keyPattern);
+    } catch {
+      throw new Error(`Invalid OpenAI compatible key pattern: ${config.keyPattern}`);
+    }
+  }
+
+  return {
+    name: "OpenAICompat",
+    envPrefix: "OPENAI_COMPAT",
+    config,
+
+    detect(apiKey) {
+      return keyRegex ? keyRegex.test(apiKey) : false;
+    },
+
+    buildRequest(ctx) {
+      return {
+        model: ctx.model,
+        prompt: ctx.prompt || "A beautiful scenery",
+        ...(ctx.images.length > 0 ? { image: ctx.images[0] } : {}),
+        ...buildMaskFields(ctx, config),
+        ...buildParamFields(ctx, config),
+        size: ctx.size,
+        n: ctx.n,
+        response_format: "url",
+      };
+    },
+
+    async call(ctx, body) {
+      const apiUrl = `${config.apiUrl}/images/generations`;
+      debug("OpenAICompat", `发送请求到: ${apiUrl}`);
+
+      const response = await fetchWithRetry(apiUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${ctx.apiKey}`,
+          "User-Agent": "ImgRouter/1.0",
+        },
+        body: JSON.stringify(body),
+      }, ctx.upstream);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new UpstreamHttpError(
+          `OpenAICompat API Error (${response.status}): ${errorText}`,
+          response.status,
+        );
+      }
+
+      return await response.json();
+    },
+
+    parseResult(data) {
+      const items = (data as { data?: unknown } | null)?.data;
+      if (!Array.isArray(items)) {
+        throw new Error(`OpenAICompat API 返回数据格式异常: ${JSON.stringify(data)}`);
+      }
+      return items as GeneratedImage[];
+    },
+  };
+}
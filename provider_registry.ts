@@ -0,0 +1,583 @@
+// ================= 渠道适配器注册表 =================
+// 每个渠道实现 ProviderAdapter 并调用 registerProvider 注册；
+// 路由核心只通过注册表检测渠道、调用生成，新增渠道无需修改 main.ts。
+
+import {
+  API_TIMEOUT_MS,
+  getEnvBool,
+  getEnvInt,
+  type ProviderConfig,
+  REQUEST_DEADLINE_MS,
+} from "./config.ts";
+import type { NormalizedChatRequest } from "./normalizer.ts";
+import { negotiateSize } from "./image_size.ts";
+import {
+  type GenerationParamName,
+  mapGenerationParams,
+  paramFieldName,
+  parseUnsupportedParamsMode,
+  type UnsupportedParamsMode,
+} from "./generation_params.ts";
+import {
+  acquirePoolKey,
+  hasKeyPool,
+  reportPoolKeyFailure,
+  reportPoolKeySuccess,
+} from "./key_pool.ts";
+import {
+  isUpstreamFault,
+  RequestCancelledError,
+  resolveRetryPolicy,
+  type UpstreamCallOptions,
+  UpstreamHttpError,
+} from "./upstream.ts";
+import {
+  allowRequest,
+  CircuitOpenError,
+  recordCancelled,
+  recordFailure,
+  recordSuccess,
+} from "./circuit_breaker.ts";
+import {
+  info,
+  logApiCallCancelled,
+  logApiCallEnd,
+  logApiCallStart,
+  logFullPrompt,
+  logGeneratedImages,
+  logImageGenerationComplete,
+  logImageGenerationFailed,
+  logImageGenerationStart,
+  logInputImages,
+  logPoolKey,
+  logProviderRouting,
+  warn,
+} from "./logger.ts";
+
+// 上游返回的单张图片（url 与 b64_json 至少其一）
+export interface GeneratedImage {
+  url?: string;
+  b64_json?: string;
+  // 上游改写后的 prompt（部分 OpenAI 兼容上游会返回）
+  revised_prompt?: string;
+}
+
+// 生成进度（异步任务、流式响应使用）
+export interface GenerationProgress {
+  // started：开始调用渠道；submitted：异步渠道已提交任务；polling：轮询任务状态
+  stage: "started" | "submitted" | "polling";
+  provider: string;
+  // 异步渠道的任务 ID / 状态 / 轮询次数
+  taskId?: string;
+  taskStatus?: string;
+  attempt?: number;
+}
+
+export type ProgressListener = (progress: GenerationProgress) => void;
+
+// 单次生成的上下文（已完成模型/尺寸解析，size 为按渠道约束协商后的 "WxH"）
+export interface GenerationContext {
+  apiKey: string;
+  requestId: string;
+  model: string;
+  size: string;
+  prompt: string;
+  images: string[];
+  // 本次上游调用要生成的图片数（不超过渠道单次上限，见 getMaxImagesPerCall）
+  n: number;
+  // 局部重绘蒙版（已按渠道预处理，仅在渠道配置了 maskField 时存在）
+  mask?: string;
+  request: NormalizedChatRequest;
+  // 上游调用参数（超时 / 重试策略 / 总时限），传给 fetchWithRetry
+  upstream: UpstreamCallOptions;
+  // 进度回调（可选）；渠道在提交/轮询等节点调用
+  onProgress?: ProgressListener;
+}
+
+export interface ProviderAdapter {
+  // 渠道名（日志、错误信息中使用）
+  name: string;
+  // 环境变量前缀，用于按渠道覆盖配置（如 VOLCENGINE_IMAGE_INPUT_MODE）
+  envPrefix: string;
+  config: ProviderConfig;
+  // 根据 API Key 格式判断是否属于该渠道
+  detect(apiKey: string): boolean;
+  // 构造上游请求体
+  buildRequest(ctx: GenerationContext): Record<string, unknown>;
+  // 调用上游并返回原始响应数据（非 2xx 时抛错）
+  call(ctx: GenerationContext, body: Record<string, unknown>): Promise<unknown>;
+  // 从上游响应中解析图片
+  parseResult(data: unknown, ctx: GenerationContext): GeneratedImage[];
+}
+
+const registry: ProviderAdapter[] = [];
+
+export function registerProvider(adapter: ProviderAdapter): void {
+  if (getProvider(adapter.name)) {
+    throw new Error(`Provider already registered: ${adapter.name}`);
+  }
+  registry.push(adapter);
+}
+
+export function getProviders(): readonly ProviderAdapter[] {
+  return registry;
+}
+
+export function getProvider(name: string): ProviderAdapter | undefined {
+  const lower = name.trim().toLowerCase();
+  return registry.find((p) => p.name.toLowerCase() === lower);
+}
+
+// 按 Key 格式匹配渠道（不记录路由日志）
+export function matchProvider(apiKey: string): ProviderAdapter | undefined {
+  if (!apiKey) return undefined;
+  return registry.find((p) => p.detect(apiKey));
+}
+
+// 按注册顺序依次检测，返回第一个匹配的渠道
+export function detectProvider(apiKey: string): ProviderAdapter | undefined {
+  if (!apiKey) return undefined;
+
+  const adapter = matchProvider(apiKey);
+  logProviderRouting(adapter?.name ?? "Unknown", apiKey.substring(0, 4));
+  return adapter;
+}
+
+// ================= 显式渠道选择 =================
+
+// 显式指定渠道的请求头（优先级与 model 前缀相同，二者冲突时报错）
+export const PROVIDER_HEADER = "X-ImgRouter-Provider";
+
+/**
+ * 解析 "provider/model" 形式的模型名
+ * - 仅当前缀是已注册渠道名时才视为显式指定（避免误伤 "Tongyi-MAI/Z-Image-Turbo" 这类模型名）
+ */
+export function splitProviderPrefix(
+  model: string | undefined,
+): { provider?: ProviderAdapter; model?: string } {
+  const trimmed = model?.trim();
+  if (!trimmed) return { model };
+  const slash = trimmed.indexOf("/");
+  if (slash <= 0) return { model: trimmed };
+  const provider = getProvider(trimmed.slice(0, slash));
+  if (!provider) return { model: trimmed };
+  const rest = trimmed.slice(slash + 1).trim();
+  return { provider, model: rest || undefined };
+}
+
+export type ProviderSelection =
+  | { ok: true; provider: ProviderAdapter; model?: string; explicit: boolean }
+  | { ok: false; status: number; message: string };
+
+export interface SelectProviderOptions {
+  // 客户端持有访问令牌：不按 Key 格式检测，只在配置了 Key 池的渠道中选择
+  pooled?: boolean;
+}
+
+/**
+ * 选择渠道：X-ImgRouter-Provider 头 / model 前缀 > API Key 格式检测
+ * - 显式渠道与 Key 检测结果不一致时返回 400
+ * - Key 无法识别时信任显式渠道（上游 Key 格式变化时仍可路由）
+ * - 访问令牌（pooled）请求：显式渠道 > supportedModels 包含该模型的渠道 > 第一个有 Key 池的渠道
+ */
+export function selectProvider(
+  apiKey: string,
+  model: string | undefined,
+  headerValue: string | null | undefined,
+  options: SelectProviderOptions = {},
+): ProviderSelection {
+  const prefixed = splitProviderPrefix(model);
+
+  let fromHeader: ProviderAdapter | undefined;
+  const headerName = headerValue?.trim();
+  if (headerName) {
+    fromHeader = getProvider(headerName);
+    if (!fromHeader) {
+      return {
+        ok: false,
+        status: 400,
+        message: `Unknown provider in ${PROVIDER_HEADER}: ${headerName}`,
+      };
+    }
+  }
+
+  if (fromHeader && prefixed.provider && fromHeader !== prefixed.provider) {
+    return {
+      ok: false,
+      status: 400,
+      message:
+        `Provider mismatch: ${PROVIDER_HEADER}=${fromHeader.name} but model prefix is ${prefixed.provider.name}`,
+    };
+  }
+
+  const explicit = fromHeader ?? prefixed.provider;
+
+  if (options.pooled) {
+    if (explicit) {
+      if (!hasKeyPool(explicit.config)) {
+        return {
+          ok: false,
+          status: 400,
+          message: `Provider ${explicit.name} has no server-side key pool`,
+        };
+      }
+      logProviderRouting(`${explicit.name} (explicit, pool)`, apiKey.substring(0, 4));
+      return { ok: true, provider: explicit, model: prefixed.model, explicit: true };
+    }
+    const pooled = registry.filter((p) => hasKeyPool(p.config));
+    const byModel = prefixed.model
+      ? pooled.find((p) => p.config.supportedModels.includes(prefixed.model!))
+      : undefined;
+    const provider = byModel ?? pooled[0];
+    if (!provider) {
+      return { ok: false, status: 401, message: "No server-side key pool configured" };
+    }
+    logProviderRouting(`${provider.name} (pool)`, apiKey.substring(0, 4));
+    return { ok: true, provider, model: prefixed.model, explicit: false };
+  }
+
+  if (!explicit) {
+    const detected = detectProvider(apiKey);
+    if (!detected) {
+      return {
+        ok: false,
+        status: 401,
+        message: "Invalid API Key format. Could not detect provider.",
+      };
+    }
+    return { ok: true, provider: detected, model: prefixed.model, explicit: false };
+  }
+
+  const detected = matchProvider(apiKey);
+  if (detected && detected !== explicit) {
+    return {
+      ok: false,
+      status: 400,
+      message:
+        `Provider mismatch: requested ${explicit.name} but API key looks like ${detected.name}`,
+    };
+  }
+
+  logProviderRouting(`${explicit.name} (explicit)`, apiKey.substring(0, 4));
+  return { ok: true, provider: explicit, model: prefixed.model, explicit: true };
+}
+
+function enforceSupportedModels(): boolean {
+  // 默认不强制（允许透传任意 model，避免出现“被强制路由到默认模型”的问题）
+  return getEnvBool("ENFORCE_SUPPORTED_MODELS", false);
+}
+
+function resolveModel(adapter: ProviderAdapter, requested: string | undefined): string {
+  const { config } = adapter;
+  const requestedModel = requested?.trim();
+  if (!requestedModel) return config.defaultModel;
+  if (!enforceSupportedModels() || config.supportedModels.includes(requestedModel)) {
+    return requestedModel;
+  }
+  warn(
+    adapter.name,
+    `请求模型不在 supportedModels 中，已回退默认模型: ${requestedModel} -> ${config.defaultModel}（如需透传任意模型请设置 ENFORCE_SUPPORTED_MODELS=false）`,
+  );
+  return config.defaultModel;
+}
+
+// 渠道是否支持局部重绘蒙版（配置了 maskField）
+export function supportsMask(adapter: ProviderAdapter): boolean {
+  return Boolean(adapter.config.maskField);
+}
+
+// 请求体中的蒙版字段（各渠道 buildRequest 展开使用）
+export function buildMaskFields(
+  ctx: GenerationContext,
+  config: ProviderConfig,
+): Record<string, string> {
+  return ctx.mask && config.maskField ? { [config.maskField]: ctx.mask } : {};
+}
+
+// 渠道不支持的生成参数的处理方式：<渠道>_UNSUPPORTED_PARAMS > UNSUPPORTED_PARAMS > drop
+export function getUnsupportedParamsMode(adapter: ProviderAdapter): UnsupportedParamsMode {
+  const globalMode = parseUnsupportedParamsMode(Deno.env.get("UNSUPPORTED_PARAMS"), "drop");
+  return parseUnsupportedParamsMode(
+    Deno.env.get(`${adapter.envPrefix}_UNSUPPORTED_PARAMS`),
+    globalMode,
+  );
+}
+
+// 请求中该渠道不支持的生成参数
+export function getUnsupportedParams(
+  adapter: ProviderAdapter,
+  request: Pick<NormalizedChatRequest, "params">,
+): GenerationParamName[] {
+  return mapGenerationParams(request.params, adapter.config.paramFields).unsupported;
+}
+
+// 请求体中的通用生成参数字段（各渠道 buildRequest 展开使用；不支持的参数已被忽略或拒绝）
+export function buildParamFields(
+  ctx: GenerationContext,
+  config: ProviderConfig,
+): Record<string, unknown> {
+  return mapGenerationParams(ctx.request.params, config.paramFields).fields;
+}
+
+export interface GenerateInput {
+  apiKey: string;
+  requestId: string;
+  request: NormalizedChatRequest;
+  prompt: string;
+  images: string[];
+  // 局部重绘蒙版（/v1/images/edits）；渠道不支持蒙版时生成失败，回退时跳过该渠道
+  mask?: string;
+  // 使用服务端 Key 池中的上游 Key（忽略 apiKey）
+  usePool?: boolean;
+  // 请求总时限（epoch 毫秒），默认为当前时间 + REQUEST_DEADLINE_MS
+  deadline?: number;
+  // 客户端断开时中止上游请求与轮询
+  signal?: AbortSignal;
+  onProgress?: ProgressListener;
+}
+
+export interface GenerationResult {
+  // 实际出图的渠道、模型与尺寸（发生回退时与请求不同；尺寸为协商后的 "WxH"）
+  provider: string;
+  model: string;
+  size: string;
+  images: GeneratedImage[];
+  // 请求的图片数；拆分调用中部分失败时 images 少于该值
+  requested: number;
+  // 失败的拆分调用的错误信息（全部成功时为空）
+  failures: string[];
+}
+
+// 部分拆分调用失败时的响应头：实际返回张数/请求张数（如 "3/4"）
+export const PARTIAL_HEADER = "X-ImgRouter-Partial";
+
+// 实际使用的尺寸（按渠道约束协商后）
+export const SIZE_HEADER = "X-ImgRouter-Size";
+
+// 上游单次调用最多生成的图片数：配置（文件 / 渠道默认）> <渠道>_MAX_IMAGES_PER_CALL > 1
+export function getMaxImagesPerCall(adapter: ProviderAdapter): number {
+  const configured = adapter.config.maxImagesPerCall ??
+    getEnvInt(`${adapter.envPrefix}_MAX_IMAGES_PER_CALL`, 1);
+  return Math.max(1, configured);
+}
+
+// 拆分调用的并发上限：<渠道>_FANOUT_CONCURRENCY > FANOUT_CONCURRENCY > 4
+function getFanoutConcurrency(envPrefix: string): number {
+  return Math.max(
+    1,
+    getEnvInt(`${envPrefix}_FANOUT_CONCURRENCY`, getEnvInt("FANOUT_CONCURRENCY", 4)),
+  );
+}
+
+// 将 n 按单次上限拆分为各次调用的图片数，如 n=5、上限 2 → [2, 2, 1]
+export function planBatches(n: number, maxPerCall: number): number[] {
+  const batches: number[] = [];
+  for (let left = Math.max(1, n); left > 0; left -= maxPerCall) {
+    batches.push(Math.min(left, maxPerCall));
+  }
+  return batches;
+}
+
+// 以有限并发执行任务；单个任务失败不影响其他任务，结果与输入顺序一致
+async function settleWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await fn(items[index]!) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * 通过指定渠道生成图片：解析模型/协商尺寸 → buildRequest → call → parseResult，
+ * 并统一记录生成日志
+ * - n 超过渠道单次上限时拆分为多次调用并发执行（并发数受 FANOUT_CONCURRENCY 限制）
+ * - 部分调用失败时返回已生成的图片并在 failures 中记录错误；全部失败时抛出第一个错误
+ */
+export async function generateImages(
+  adapter: ProviderAdapter,
+  input: GenerateInput,
+): Promise<GenerationResult> {
+  const { name } = adapter;
+  const { requestId, prompt, images } = input;
+  const startTime = Date.now();
+  logApiCallStart(name, "generate_image");
+
+  // 记录完整 Prompt
+  logFullPrompt(name, requestId, prompt);
+
+  // 记录输入图片（图生图）
+  logInputImages(name, requestId, images);
+
+  if (input.mask && !supportsMask(adapter)) {
+    const message = `${name} 不支持蒙版（局部重绘）`;
+    logImageGenerationFailed(name, requestId, message);
+    logApiCallEnd(name, "generate_image", false, Date.now() - startTime);
+    throw new Error(message);
+  }
+
+  const unsupported = getUnsupportedParams(adapter, input.request);
+  if (unsupported.length > 0) {
+    const names = unsupported.map(paramFieldName).join(", ");
+    if (getUnsupportedParamsMode(adapter) === "reject") {
+      const message = `${name} 不支持参数: ${names}`;
+      logImageGenerationFailed(name, requestId, message);
+      logApiCallEnd(name, "generate_image", false, Date.now() - startTime);
+      throw new Error(message);
+    }
+    info(name, `${requestId} 忽略不支持的参数: ${names}`);
+  }
+
+  let apiKey = input.apiKey;
+  const poolKey = input.usePool ? acquirePoolKey(name, adapter.config) : undefined;
+  if (input.usePool) {
+    if (!poolKey) {
+      const message = `${name} Key 池中没有可用 Key（均在冷却中）`;
+      logImageGenerationFailed(name, requestId, message);
+      logApiCallEnd(name, "generate_image", false, Date.now() - startTime);
+      throw new Error(message);
+    }
+    logPoolKey(name, requestId, poolKey.alias);
+    apiKey = poolKey.key;
+  }
+
+  // 熔断中：快速失败（由调用方决定是否回退）
+  if (!allowRequest(name, adapter.envPrefix)) {
+    const err = new CircuitOpenError(name);
+    logImageGenerationFailed(name, requestId, err.message);
+    logApiCallEnd(name, "generate_image", false, Date.now() - startTime);
+    throw err;
+  }
+
+  const size = negotiateSize(
+    input.request.size,
+    adapter.config.defaultSize,
+    adapter.config.sizeLimits,
+  );
+  if (size.adjusted) info(name, `${requestId} 尺寸 ${input.request.size} 调整为 ${size.size}`);
+
+  const ctx: GenerationContext = {
+    apiKey,
+    requestId,
+    model: resolveModel(adapter, input.request.model),
+    size: size.size,
+    prompt,
+    images,
+    n: Math.max(1, input.request.n ?? 1),
+    ...(input.mask ? { mask: input.mask } : {}),
+    request: input.request,
+    upstream: {
+      label: name,
+      timeoutMs: adapter.config.timeoutMs ?? API_TIMEOUT_MS,
+      retry: resolveRetryPolicy(adapter.config, adapter.envPrefix),
+      deadline: input.deadline ?? Date.now() + REQUEST_DEADLINE_MS,
+      signal: input.signal,
+    },
+    onProgress: input.onProgress,
+  };
+
+  // 记录生成开始
+  logImageGenerationStart(name, requestId, ctx.model, ctx.size, prompt.length);
+  ctx.onProgress?.({ stage: "started", provider: name });
+
+  try {
+    const batches = planBatches(ctx.n, getMaxImagesPerCall(adapter));
+    if (batches.length > 1) info(name, `${requestId} n=${ctx.n} 拆分为 ${batches.length} 次调用`);
+
+    const settled = await settleWithConcurrency(
+      batches,
+      getFanoutConcurrency(adapter.envPrefix),
+      async (count) => {
+        const batchCtx: GenerationContext = { ...ctx, n: count };
+        const body = adapter.buildRequest(batchCtx);
+        const data = await adapter.call(batchCtx, body);
+        return adapter.parseResult(data, batchCtx);
+      },
+    );
+    const rejected = settled.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+    const cancelled = rejected.find((r) => r.reason instanceof RequestCancelledError);
+    if (cancelled) throw cancelled.reason;
+    // 全部失败：按单次调用失败处理（计入熔断 / Key 池，可触发回退）
+    if (rejected.length === batches.length) throw rejected[0]!.reason;
+
+    const result = settled.flatMap((r) => r.status === "fulfilled" ? r.value : []);
+    const failures = rejected.map((r) =>
+      r.reason instanceof Error ? r.reason.message : String(r.reason)
+    );
+    if (poolKey) reportPoolKeySuccess(name, poolKey);
+    recordSuccess(name);
+    if (failures.length > 0) {
+      warn(
+        name,
+        `${requestId} 拆分调用部分失败 (${failures.length}/${batches.length}): ${failures[0]}`,
+      );
+    }
+
+    // 记录生成的图片 URL
+    logGeneratedImages(name, requestId, result);
+
+    const duration = Date.now() - startTime;
+    logImageGenerationComplete(name, requestId, result.length, duration);
+    logApiCallEnd(name, "generate_image", true, duration);
+    return {
+      provider: name,
+      model: ctx.model,
+      size: ctx.size,
+      images: result,
+      requested: ctx.n,
+      failures,
+    };
+  } catch (err) {
+    // 客户端断开：不计入熔断与 Key 健康统计，记为取消而非失败
+    if (err instanceof RequestCancelledError || input.signal?.aborted) {
+      recordCancelled(name);
+      info(name, `${requestId} 客户端断开，已取消生成`);
+      logApiCallCancelled(name, "generate_image", Date.now() - startTime);
+      throw err instanceof RequestCancelledError ? err : new RequestCancelledError(name);
+    }
+    // 请求本身的 4xx 说明渠道可用，同样视为熔断器的成功响应
+    if (isUpstreamFault(err)) recordFailure(name, adapter.envPrefix);
+    else recordSuccess(name);
+    if (poolKey) {
+      const status = err instanceof UpstreamHttpError ? err.status : undefined;
+      // 参数错误、内容审核等 4xx 与 Key 无关，不影响 Key 的选择优先级
+      if (isUpstreamFault(err) || status === 401 || status === 403) {
+        const benchMs = reportPoolKeyFailure(name, poolKey, status);
+        if (benchMs > 0) warn(name, `Key ${poolKey.alias} 返回 ${status}，冷却 ${benchMs}ms`);
+      } else {
+        reportPoolKeySuccess(name, poolKey);
+      }
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    logImageGenerationFailed(name, requestId, message);
+    logApiCallEnd(name, "generate_image", false, Date.now() - startTime);
+    throw err;
+  }
+}
+
+// 将生成结果渲染为 Markdown 图片（chat 响应使用）
+export function renderImagesAsMarkdown(images: GeneratedImage[]): string {
+  const result = images.map((img) => {
+    if (img.url) return `![Generated Image](${img.url})`;
+    if (img.b64_json) {
+      const v = img.b64_json.startsWith("data:")
+        ? img.b64_json
+        : `data:image/png;base64,${img.b64_json}`;
+      return `![Generated Image](${v})`;
+    }
+    return "";
+  }).filter(Boolean).join("\n\n");
+  return result || "图片生成失败";
+}
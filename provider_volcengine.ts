@@ -0,0 +1,72 @@
+// ================= 火山引擎（豆包）渠道 =================
+
+import { VolcEngineConfig } from "./config.ts";
+import {
+  buildMaskFields,
+  buildParamFields,
+  type GeneratedImage,
+  type ProviderAdapter,
+} from "./provider_registry.ts";
+import { fetchWithRetry, UpstreamHttpError } from "./upstream.ts";
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const VolcEngineProvider: ProviderAdapter = {
+  name: "VolcEngine",
+  envPrefix: "VOLCENGINE",
+  config: VolcEngineConfig,
+
+  detect(apiKey) {
+    return UUID_REGEX.test(apiKey);
+  },
+
+  buildRequest(ctx) {
+    return {
+      model: ctx.model,
+      prompt: ctx.prompt || "A beautiful scenery",
+      image: ctx.images,
+      ...buildMaskFields(ctx, VolcEngineConfig),
+      response_format: "url",
+      size: ctx.size,
+      // 未指定时随机种子、不加水印
+      seed: -1,
+      stream: false,
+      watermark: false,
+      ...buildParamFields(ctx, VolcEngineConfig),
+      // 组图模式（仅在配置了 VOLCENGINE_MAX_IMAGES_PER_CALL > 1 时使用；模型可能少于 max_images）
+      ...(ctx.n > 1
+        ? {
+          sequential_image_generation: "auto",
+          sequential_image_generation_options: { max_images: ctx.n },
+        }
+        : {}),
+    };
+  },
+
+  async call(ctx, body) {
+    const response = await fetchWithRetry(VolcEngineConfig.apiUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${ctx.apiKey}`,
+        "Connection": "close",
+      },
+      body: JSON.stringify(body),
+    }, ctx.upstream);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new UpstreamHttpError(
+        `VolcEngine API Error (${response.status}): ${errorText}`,
+        response.status,
+      );
+    }
+
+    return await response.json();
+  },
+
+  parseResult(data) {
+    const items = (data as { data?: GeneratedImage[] } | null)?.data;
+    return Array.isArray(items) ? items : [];
+  },
+};
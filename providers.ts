@@ -0,0 +1,19 @@
+// ================= 内置渠道注册 =================
+// 新增渠道：实现 ProviderAdapter（参考 provider_*.ts），并在此处注册。
+// 注册顺序即 API Key 检测顺序。
+
+import { registerProvider } from "./provider_registry.ts";
+import { VolcEngineProvider } from "./provider_volcengine.ts";
+import { GiteeProvider } from "./provider_gitee.ts";
+import { ModelScopeProvider } from "./provider_modelscope.ts";
+import { createOpenAICompatProvider } from "./provider_openai_compat.ts";
+import { OpenAICompatConfig } from "./config.ts";
+
+registerProvider(ModelScopeProvider);
+registerProvider(VolcEngineProvider);
+registerProvider(GiteeProvider);
+
+// 可选：OpenAI 兼容渠道（配置了 OPENAI_COMPAT_BASE_URL 时启用，排在内置渠道之后检测）
+if (OpenAICompatConfig) {
+  registerProvider(createOpenAICompatProvider(OpenAICompatConfig));
+}
@@ -1,5 +1,9 @@
 import { encodeBase64 } from "./base64.ts";
-import { injectImagesIntoLastUserMessage } from "./normalizer.ts";
+import {
+  injectImagesIntoLastUserMessage,
+  normalizeChatRequest,
+  type NormalizedChatRequest,
+} from "./normalizer.ts";
 
 export interface ParseBodyResult {
   body: unknown;
@@ -7,6 +11,13 @@ export interface ParseBodyResult {
   warnings: string[];
 }
 
+export type ParsedChatRequest =
+  | {
+    ok: true;
+    value: { request: NormalizedChatRequest; injectedImageCount: number; warnings: string[] };
+  }
+  | { ok: false; message: string };
+
 function normalizeMime(mime: string | undefined): string {
   const v = (mime ?? "").trim().toLowerCase();
   const semi = v.indexOf(";");
@@ -29,6 +40,31 @@ export async function parseChatRequestBody(req: Request): Promise<ParseBodyResul
   return { body, injectedImageCount: 0, warnings: [] };
 }
 
+/**
+ * 读取并归一化 /v1/chat/completions 请求（JSON 或 multipart）
+ * - 请求体无法解析或字段不合法（n、seed 等）时返回错误信息，由调用方返回 400
+ */
+export async function parseChatRequest(req: Request): Promise<ParsedChatRequest> {
+  let parsed: ParseBodyResult;
+  try {
+    parsed = await parseChatRequestBody(req);
+  } catch (err) {
+    if (err instanceof SyntaxError) return { ok: false, message: "Invalid JSON body" };
+    const message = err instanceof Error ? err.message : String(err);
+    return { ok: false, message: `Invalid request body: ${message}` };
+  }
+
+  try {
+    const request = normalizeChatRequest(parsed.body);
+    return {
+      ok: true,
+      value: { request, injectedImageCount: parsed.injectedImageCount, warnings: parsed.warnings },
+    };
+  } catch (err) {
+    return { ok: false, message: err instanceof Error ? err.message : String(err) };
+  }
+}
+
 async function fileToDataUrl(file: File, maxBytes: number): Promise<string> {
   const mime = normalizeMime(file.type);
   if (!mime.startsWith("image/")) {
@@ -88,3 +124,89 @@ async function parseMultipartChatRequest(req: Request): Promise<ParseBodyResult>
 }
 
 
+
+// ================= /v1/images/edits =================
+
+export interface ImageEditBody {
+  // 普通字段（prompt / model / size / n / response_format 等）
+  body: Record<string, unknown>;
+  // 参考图（dataURL 或 http(s) URL）
+  images: string[];
+  mask?: string;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+// JSON 形式的图片字段：字符串、{ image_url } 或二者的数组
+function collectImageRefs(v: unknown): string[] {
+  const items = Array.isArray(v) ? v : [v];
+  const out: string[] = [];
+  for (const item of items) {
+    if (typeof item === "string" && item.trim() !== "") out.push(item.trim());
+    else if (isRecord(item) && typeof item.image_url === "string") out.push(item.image_url);
+  }
+  return out;
+}
+
+// 表单中的数值 / 布尔字段
+const NUMERIC_FORM_FIELDS = new Set([
+  "n",
+  "seed",
+  "steps",
+  "num_inference_steps",
+  "guidance",
+  "guidance_scale",
+  "cfg_scale",
+]);
+
+// 表单字段均为字符串：数值与布尔字段转换类型，便于与 JSON 请求统一校验（无法转换时原样保留）
+function coerceFormField(key: string, value: string): unknown {
+  const v = value.trim();
+  if (NUMERIC_FORM_FIELDS.has(key) && /^-?\d+(\.\d+)?$/.test(v)) return Number(v);
+  if (key === "watermark" && (v === "true" || v === "false")) return v === "true";
+  return value;
+}
+
+/**
+ * 解析 /v1/images/edits 请求体
+ * - multipart/form-data：image / image[]（可多张文件或 URL）、mask（可选）与普通字段
+ * - JSON：image / images 为 URL、dataURL 或 { image_url }，mask 同理
+ */
+export async function parseImageEditRequestBody(req: Request): Promise<ImageEditBody> {
+  const contentType = (req.headers.get("content-type") ?? "").toLowerCase();
+
+  if (!contentType.includes("multipart/form-data")) {
+    const raw = await req.json();
+    if (!isRecord(raw)) throw new Error("Request body must be a JSON object");
+    const { image, images, mask, ...body } = raw;
+    return {
+      body,
+      images: [...collectImageRefs(image), ...collectImageRefs(images)],
+      mask: collectImageRefs(mask)[0],
+    };
+  }
+
+  const form = await req.formData();
+  const maxBytes = parseIntEnvLike(Deno.env.get("MAX_IMAGE_BYTES"), 10 * 1024 * 1024);
+
+  const body: Record<string, unknown> = {};
+  const images: string[] = [];
+  let mask: string | undefined;
+
+  for (const [key, value] of form.entries()) {
+    const field = key.toLowerCase().replace(/\[\]$/, "");
+    if (field === "image" || field === "images") {
+      if (value instanceof File) images.push(await fileToDataUrl(value, maxBytes));
+      else if (value.trim() !== "") images.push(value.trim());
+    } else if (field === "mask") {
+      if (value instanceof File) mask = await fileToDataUrl(value, maxBytes);
+      else if (value.trim() !== "") mask = value.trim();
+    } else if (typeof value === "string") {
+      body[key] = coerceFormField(key, value);
+    }
+  }
+
+  return { body, images, mask };
+}
@@ -0,0 +1,221 @@
+// ================= OpenAI Responses API =================
+// POST /v1/responses：input 归一化后复用 chat 接口的路由与生成逻辑（见 normalizer.ts）。
+// 生成结果以 image_generation_call 输出项返回，result 为裸 base64（与 OpenAI 一致）。
+// stream: true 时按 Responses API 的事件格式输出（event: <type> + data: {type, sequence_number, ...}）：
+//   response.created → response.in_progress → response.output_item.added
+//   → response.image_generation_call.in_progress / generating / completed
+//   → response.output_item.done → response.completed（失败时为 response.failed）
+
+export type ResponseStatus = "in_progress" | "completed" | "failed";
+
+export interface ImageGenerationCall {
+  id: string;
+  type: "image_generation_call";
+  status: "in_progress" | "generating" | "completed" | "failed";
+  result?: string;
+  revised_prompt?: string;
+  // 实际使用的尺寸（"WxH"）
+  size?: string;
+}
+
+export interface ResponseObject {
+  id: string;
+  object: "response";
+  created_at: number;
+  status: ResponseStatus;
+  model: string;
+  output: ImageGenerationCall[];
+  error: { code: string; message: string } | null;
+  usage: { input_tokens: number; output_tokens: number; total_tokens: number } | null;
+}
+
+// 一张生成结果（result 为裸 base64）
+export interface ResponseImage {
+  result: string;
+  revised_prompt: string;
+  size?: string;
+}
+
+export interface ResponsesResult {
+  model: string;
+  images: ResponseImage[];
+}
+
+export interface ResponsesStreamOptions {
+  id: string;
+  // 初始事件使用的模型名（生成完成后以实际模型为准）
+  model: string;
+  keepAliveMs: number;
+}
+
+export function newResponseId(): string {
+  return `resp_${crypto.randomUUID().replaceAll("-", "")}`;
+}
+
+function newImageCallId(): string {
+  return `ig_${crypto.randomUUID().replaceAll("-", "")}`;
+}
+
+function completedCall(id: string, image: ResponseImage): ImageGenerationCall {
+  return {
+    id,
+    type: "image_generation_call",
+    status: "completed",
+    result: image.result,
+    revised_prompt: image.revised_prompt,
+    ...(image.size ? { size: image.size } : {}),
+  };
+}
+
+export function buildResponse(
+  fields: {
+    id: string;
+    model: string;
+    status: ResponseStatus;
+    output?: ImageGenerationCall[];
+    error?: string;
+  },
+  createdAt: number = Math.floor(Date.now() / 1000),
+): ResponseObject {
+  return {
+    id: fields.id,
+    object: "response",
+    created_at: createdAt,
+    status: fields.status,
+    model: fields.model,
+    output: fields.output ?? [],
+    error: fields.error !== undefined ? { code: "server_error", message: fields.error } : null,
+    usage: fields.status === "completed"
+      ? { input_tokens: 0, output_tokens: 0, total_tokens: 0 }
+      : null,
+  };
+}
+
+// 非流式响应
+export function buildCompletedResponse(id: string, result: ResponsesResult): ResponseObject {
+  return buildResponse({
+    id,
+    model: result.model,
+    status: "completed",
+    output: result.images.map((image) => completedCall(newImageCallId(), image)),
+  });
+}
+
+/**
+ * 创建 Responses API 事件流：立即输出 created / in_progress 与首个输出项，work 完成后输出结果
+ * - work 调用 generating() 表示上游已开始生成（只输出一次 generating 事件）
+ * - 上游返回多张图时，后续图片在完成时追加为新的输出项
+ * - 客户端断开时停止 keep-alive 并中止传给 work 的 signal
+ */
+export function createResponsesStream(
+  options: ResponsesStreamOptions,
+  work: (generating: () => void, signal: AbortSignal) => Promise<ResponsesResult>,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const createdAt = Math.floor(Date.now() / 1000);
+  const abort = new AbortController();
+  let closed = false;
+  let keepAlive: ReturnType<typeof setInterval> | undefined;
+  let sequence = 0;
+
+  const stop = (): void => {
+    closed = true;
+    clearInterval(keepAlive);
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (text: string): void => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          // 客户端已断开
+          stop();
+          abort.abort();
+        }
+      };
+      const send = (type: string, payload: Record<string, unknown>): void => {
+        const data = { type, sequence_number: sequence++, ...payload };
+        write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+      const addItem = (outputIndex: number, itemId: string): void => {
+        send("response.output_item.added", {
+          output_index: outputIndex,
+          item: { id: itemId, type: "image_generation_call", status: "in_progress" },
+        });
+        send("response.image_generation_call.in_progress", {
+          output_index: outputIndex,
+          item_id: itemId,
+        });
+      };
+
+      const pending = buildResponse(
+        { id: options.id, model: options.model, status: "in_progress" },
+        createdAt,
+      );
+      send("response.created", { response: pending });
+      send("response.in_progress", { response: pending });
+
+      const firstId = newImageCallId();
+      addItem(0, firstId);
+      if (options.keepAliveMs > 0) {
+        keepAlive = setInterval(() => write(": keep-alive\n\n"), options.keepAliveMs);
+      }
+
+      let generatingSent = false;
+      const generating = (): void => {
+        if (generatingSent) return;
+        generatingSent = true;
+        send("response.image_generation_call.generating", { output_index: 0, item_id: firstId });
+      };
+
+      work(generating, abort.signal).then((result) => {
+        const output = result.images.map((image, index) => {
+          const itemId = index === 0 ? firstId : newImageCallId();
+          if (index > 0) addItem(index, itemId);
+          const item = completedCall(itemId, image);
+          send("response.image_generation_call.completed", {
+            output_index: index,
+            item_id: itemId,
+          });
+          send("response.output_item.done", { output_index: index, item });
+          return item;
+        });
+        send("response.completed", {
+          response: buildResponse(
+            { id: options.id, model: result.model, status: "completed", output },
+            createdAt,
+          ),
+        });
+      }).catch((err) => {
+        const message = err instanceof Error ? err.message : String(err);
+        const failed: ImageGenerationCall = {
+          id: firstId,
+          type: "image_generation_call",
+          status: "failed",
+        };
+        send("response.output_item.done", { output_index: 0, item: failed });
+        send("response.failed", {
+          response: buildResponse(
+            {
+              id: options.id,
+              model: options.model,
+              status: "failed",
+              output: [failed],
+              error: message,
+            },
+            createdAt,
+          ),
+        });
+      }).finally(() => {
+        if (!closed) controller.close();
+        stop();
+      });
+    },
+    cancel() {
+      stop();
+      abort.abort();
+    },
+  });
+}
@@ -0,0 +1,70 @@
+import { assert, assertEquals } from "./_assert.ts";
+import {
+  createChatProgressStream,
+  formatProgress,
+  parseStreamProgressMode,
+} from "../chat_stream.ts";
+
+async function readEvents(stream: ReadableStream<Uint8Array>): Promise<string[]> {
+  const text = await new Response(stream).text();
+  return text.split("\n\n").filter((e) => e !== "");
+}
+
+function dataOf(event: string): Record<string, unknown> {
+  return JSON.parse(event.slice("data: ".length));
+}
+
+Deno.test("SSE：立即输出角色，生成期间输出进度与 keep-alive，最后输出内容与 [DONE]", async () => {
+  const stream = createChatProgressStream(
+    { id: "chatcmpl-test", model: "req-model", keepAliveMs: 5, progressMode: "reasoning" },
+    async (progress) => {
+      progress(formatProgress({ stage: "submitted", provider: "ModelScope", taskId: "t1" }));
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      return { content: "![Generated Image](https://img.local/a.png)", model: "real-model" };
+    },
+  );
+
+  const events = await readEvents(stream);
+  const first = dataOf(events[0]!) as { choices: { delta: unknown }[] };
+  assertEquals(first.choices[0]!.delta, { role: "assistant", content: "" });
+
+  const progress = dataOf(events[1]!) as { choices: { delta: { reasoning_content: string } }[] };
+  assertEquals(progress.choices[0]!.delta.reasoning_content, "ModelScope 任务已提交 (t1)\n");
+
+  assert(events.some((e) => e === ": keep-alive"));
+
+  const tail = events.slice(-3);
+  const content = dataOf(tail[0]!) as { model: string; choices: { delta: { content: string } }[] };
+  assertEquals(content.model, "real-model");
+  assertEquals(content.choices[0]!.delta.content, "![Generated Image](https://img.local/a.png)");
+  const end = dataOf(tail[1]!) as { choices: { finish_reason: string }[] };
+  assertEquals(end.choices[0]!.finish_reason, "stop");
+  assertEquals(tail[2], "data: [DONE]");
+});
+
+Deno.test("SSE：生成失败时输出 error 事件，progress=off 时不输出进度", async () => {
+  const stream = createChatProgressStream(
+    { id: "chatcmpl-test", model: "m", keepAliveMs: 0, progressMode: "off" },
+    (progress) => {
+      progress("ignored");
+      return Promise.reject(new Error("ModelScope Task Timeout"));
+    },
+  );
+
+  const events = await readEvents(stream);
+  assertEquals(events.length, 3);
+  assertEquals(dataOf(events[1]!), {
+    error: { message: "ModelScope Task Timeout", type: "server_error" },
+  });
+  assertEquals(events[2], "data: [DONE]");
+});
+
+Deno.test("SSE：进度模式与轮询进度文本", () => {
+  assertEquals(parseStreamProgressMode(undefined), "reasoning");
+  assertEquals(parseStreamProgressMode("CONTENT"), "content");
+  assertEquals(parseStreamProgressMode("off"), "off");
+  assertEquals(
+    formatProgress({ stage: "polling", provider: "ModelScope", taskStatus: "RUNNING", attempt: 3 }),
+    "ModelScope 任务状态: RUNNING（第 3 次查询）",
+  );
+});
@@ -0,0 +1,69 @@
+import { assert, assertEquals } from "./_assert.ts";
+import {
+  allowRequest,
+  getCircuitStatus,
+  recordFailure,
+  recordSuccess,
+} from "../circuit_breaker.ts";
+
+// 默认阈值 5、冷却 30s；各用例使用独立渠道名避免状态互相影响
+const PREFIX = "CB_TEST";
+
+Deno.test("熔断器：连续失败达到阈值后打开并快速失败", () => {
+  const now = 1_000_000;
+  for (let i = 0; i < 4; i++) {
+    assert(allowRequest("cb-open", PREFIX, now));
+    recordFailure("cb-open", PREFIX, now);
+  }
+  assertEquals(getCircuitStatus("cb-open").state, "closed");
+
+  recordFailure("cb-open", PREFIX, now);
+  assertEquals(getCircuitStatus("cb-open").state, "open");
+  assertEquals(allowRequest("cb-open", PREFIX, now + 1000), false);
+});
+
+Deno.test("熔断器：成功会重置连续失败计数", () => {
+  const now = 1_000_000;
+  for (let i = 0; i < 4; i++) recordFailure("cb-reset", PREFIX, now);
+  recordSuccess("cb-reset");
+  recordFailure("cb-reset", PREFIX, now);
+  assertEquals(getCircuitStatus("cb-reset").state, "closed");
+  assertEquals(getCircuitStatus("cb-reset").consecutiveFailures, 1);
+});
+
+Deno.test("熔断器：冷却后只放行一个探测，成功则关闭", () => {
+  const now = 1_000_000;
+  for (let i = 0; i < 5; i++) recordFailure("cb-probe", PREFIX, now);
+
+  const later = now + 30_000;
+  assert(allowRequest("cb-probe", PREFIX, later));
+  assertEquals(getCircuitStatus("cb-probe").state, "half_open");
+  assertEquals(allowRequest("cb-probe", PREFIX, later), false);
+
+  recordSuccess("cb-probe");
+  assertEquals(getCircuitStatus("cb-probe").state, "closed");
+  assert(allowRequest("cb-probe", PREFIX, later));
+});
+
+Deno.test("熔断器：探测失败重新熔断", () => {
+  const now = 1_000_000;
+  for (let i = 0; i < 5; i++) recordFailure("cb-reopen", PREFIX, now);
+
+  const later = now + 30_000;
+  assert(allowRequest("cb-reopen", PREFIX, later));
+  recordFailure("cb-reopen", PREFIX, later);
+  assertEquals(getCircuitStatus("cb-reopen").state, "open");
+  assertEquals(allowRequest("cb-reopen", PREFIX, later + 1000), false);
+  assert(allowRequest("cb-reopen", PREFIX, later + 30_000));
+});
+
+Deno.test("熔断器：阈值为 0 时关闭熔断", () => {
+  Deno.env.set("CB_OFF_CIRCUIT_BREAKER_THRESHOLD", "0");
+  try {
+    for (let i = 0; i < 10; i++) recordFailure("cb-off", "CB_OFF", 1_000_000);
+    assert(allowRequest("cb-off", "CB_OFF", 1_000_000));
+    assertEquals(getCircuitStatus("cb-off").state, "closed");
+  } finally {
+    Deno.env.delete("CB_OFF_CIRCUIT_BREAKER_THRESHOLD");
+  }
+});
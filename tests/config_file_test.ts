@@ -0,0 +1,66 @@
+import { assert, assertEquals } from "./_assert.ts";
+import "../providers.ts";
+import { applyFileConfig, validateFileConfig } from "../config_file.ts";
+import { getProvider, getProviders } from "../provider_registry.ts";
+
+Deno.test("配置文件：校验并覆盖渠道配置，移除字段后恢复内置值", () => {
+  const volc = getProvider("VolcEngine")!;
+  const originalUrl = volc.config.apiUrl;
+  const originalSize = volc.config.defaultSize;
+
+  const config = validateFileConfig({
+    providers: {
+      volcengine: {
+        apiUrl: "https://ark.ap-southeast.bytepluses.com/api/v3/images/generations/",
+        supportedModels: ["doubao-seedream-4-5-251128", "doubao-seedream-5-0"],
+        timeoutMs: 30000,
+      },
+    },
+  });
+
+  try {
+    applyFileConfig(config, getProviders());
+    assertEquals(
+      volc.config.apiUrl,
+      "https://ark.ap-southeast.bytepluses.com/api/v3/images/generations",
+    );
+    assertEquals(volc.config.supportedModels, [
+      "doubao-seedream-4-5-251128",
+      "doubao-seedream-5-0",
+    ]);
+    assertEquals(volc.config.timeoutMs, 30000);
+    assertEquals(volc.config.defaultSize, originalSize);
+  } finally {
+    applyFileConfig({ providers: {} }, getProviders());
+  }
+
+  assertEquals(volc.config.apiUrl, originalUrl);
+  assertEquals(volc.config.timeoutMs, undefined);
+});
+
+Deno.test("配置文件：非法内容报错", () => {
+  const invalid: unknown[] = [
+    [],
+    { providers: { NoSuchProvider: {} } },
+    { providers: { Gitee: { apiUrl: "not a url" } } },
+    { providers: { Gitee: { timeoutMs: -1 } } },
+    { providers: { Gitee: { supportedModels: "z-image-turbo" } } },
+    { providers: { Gitee: { unknownField: 1 } } },
+    { providers: { Gitee: { defaultSize: "huge" } } },
+    { providers: { Gitee: { sizeLimits: { maxSide: 0 } } } },
+    { providers: { Gitee: { sizeLimits: { presets: ["16:9"] } } } },
+    { prompts: { models: { "*": {} } } },
+    { prompts: { models: { "*": { template: "no placeholder" } } } },
+    { prompts: { keys: { "sk-a": { style: "x" } } } },
+    { prompts: { users: {} } },
+  ];
+  for (const raw of invalid) {
+    let threw = false;
+    try {
+      validateFileConfig(raw);
+    } catch (err) {
+      threw = err instanceof Error && err.message.startsWith("Invalid config:");
+    }
+    assert(threw, `expected invalid: ${JSON.stringify(raw)}`);
+  }
+});
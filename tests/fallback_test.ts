@@ -0,0 +1,113 @@
+import { assertEquals, assertRejects } from "./_assert.ts";
+import { generateWithFallback } from "../fallback.ts";
+import { type ProviderAdapter, registerProvider } from "../provider_registry.ts";
+import { normalizeChatRequest } from "../normalizer.ts";
+import { isUpstreamFault, UpstreamHttpError } from "../upstream.ts";
+
+function fakeAdapter(
+  name: string,
+  fail?: () => Error,
+  detect: (apiKey: string) => boolean = () => false,
+): ProviderAdapter {
+  return {
+    name,
+    envPrefix: name.toUpperCase(),
+    config: {
+      apiUrl: "http://fake.local",
+      defaultModel: `${name}-default`,
+      supportedModels: [],
+      defaultSize: "1024x1024",
+      keys: [{ alias: `${name}-pool`, key: "k" }],
+    },
+    detect,
+    buildRequest: (ctx) => ({ model: ctx.model, key: ctx.apiKey }),
+    call: (_ctx, body) => fail ? Promise.reject(fail()) : Promise.resolve(body),
+    parseResult: (data) => {
+      const { model, key } = data as { model: string; key: string };
+      return [{ url: `https://img.local/${model}?key=${key}` }];
+    },
+  };
+}
+
+const request = normalizeChatRequest({ model: "m", messages: [{ role: "user", content: "猫" }] });
+// 持有访问令牌的请求（使用服务端 Key 池）
+const input = {
+  apiKey: "access-token",
+  requestId: "req_test",
+  request,
+  prompt: "猫",
+  images: [],
+  usePool: true,
+};
+
+Deno.test("回退：5xx 时按链路回退并记录实际渠道", async () => {
+  const primary = fakeAdapter("FbPrimary", () => new UpstreamHttpError("boom", 503));
+  const broken = fakeAdapter("FbBroken", () => new Error("timeout"));
+  const backup = fakeAdapter("FbBackup");
+  primary.config.fallback = [
+    { provider: "FbBroken" },
+    { provider: "FbBackup", model: "backup-model" },
+  ];
+  registerProvider(primary);
+  registerProvider(broken);
+  registerProvider(backup);
+
+  const result = await generateWithFallback(primary, input);
+  assertEquals(result.provider, "FbBackup");
+  assertEquals(result.model, "backup-model");
+  assertEquals(result.fallbackFrom, ["FbPrimary", "FbBroken"]);
+  assertEquals(result.images, [{ url: "https://img.local/backup-model?key=k" }]);
+});
+
+Deno.test("回退：4xx 请求错误不回退", async () => {
+  const primary = fakeAdapter("FbBadRequest", () => new UpstreamHttpError("bad prompt", 400));
+  primary.config.fallback = [{ provider: "FbBackup" }];
+
+  assertEquals(isUpstreamFault(new UpstreamHttpError("x", 400)), false);
+  assertEquals(isUpstreamFault(new UpstreamHttpError("x", 429)), true);
+  await assertRejects(() => generateWithFallback(primary, input), "bad prompt");
+});
+
+Deno.test("回退：带蒙版时跳过不支持蒙版的回退渠道", async () => {
+  const primary = fakeAdapter("FbMaskPrimary", () => new UpstreamHttpError("boom", 502));
+  const plain = fakeAdapter("FbMaskPlain");
+  const inpaint = fakeAdapter("FbMaskInpaint");
+  primary.config.maskField = "mask";
+  inpaint.config.maskField = "mask";
+  primary.config.fallback = [{ provider: "FbMaskPlain" }, { provider: "FbMaskInpaint" }];
+  registerProvider(primary);
+  registerProvider(plain);
+  registerProvider(inpaint);
+
+  const result = await generateWithFallback(primary, {
+    ...input,
+    mask: "data:image/png;base64,AA",
+  });
+  assertEquals(result.provider, "FbMaskInpaint");
+  assertEquals(result.fallbackFrom, ["FbMaskPrimary"]);
+});
+
+Deno.test("回退：未持有访问令牌时不借用服务端 Key 池，只回退到客户端 Key 所属渠道", async () => {
+  const primary = fakeAdapter("FbOwnPrimary", () => new UpstreamHttpError("boom", 503));
+  const pooled = fakeAdapter("FbOwnPooled");
+  const own = fakeAdapter("FbOwnKey", undefined, (key) => key === "own-key");
+  primary.config.fallback = [{ provider: "FbOwnPooled" }, { provider: "FbOwnKey" }];
+  registerProvider(primary);
+  registerProvider(pooled);
+  registerProvider(own);
+
+  const result = await generateWithFallback(primary, {
+    ...input,
+    apiKey: "own-key",
+    usePool: false,
+  });
+  assertEquals(result.provider, "FbOwnKey");
+  assertEquals(result.fallbackFrom, ["FbOwnPrimary"]);
+  assertEquals(result.images, [{ url: "https://img.local/FbOwnKey-default?key=own-key" }]);
+
+  // 客户端 Key 不属于任何回退渠道：返回主渠道的错误
+  await assertRejects(
+    () => generateWithFallback(primary, { ...input, apiKey: "garbage", usePool: false }),
+    "boom",
+  );
+});
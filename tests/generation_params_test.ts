@@ -0,0 +1,71 @@
+import { assert, assertEquals } from "./_assert.ts";
+import { mapGenerationParams, parseGenerationParams } from "../generation_params.ts";
+import { parseImageGenerationRequest, toNormalizedRequest } from "../images_api.ts";
+import { normalizeChatRequest } from "../normalizer.ts";
+
+Deno.test("生成参数：解析常见写法，未出现的参数不写入", () => {
+  const parsed = parseGenerationParams({
+    seed: 42,
+    negative_prompt: "  模糊，低质量 ",
+    num_inference_steps: 8,
+    guidance_scale: 3.5,
+    watermark: false,
+    prompt: "猫",
+  });
+  assert(parsed.ok);
+  assertEquals(parsed.value, {
+    seed: 42,
+    negativePrompt: "模糊，低质量",
+    steps: 8,
+    guidance: 3.5,
+    watermark: false,
+  });
+
+  const empty = parseGenerationParams({ negative_prompt: " ", seed: null });
+  assert(empty.ok);
+  assertEquals(empty.value, {});
+});
+
+Deno.test("生成参数：非法值报错", () => {
+  const invalid: Record<string, unknown>[] = [
+    { seed: 1.5 },
+    { seed: -2 },
+    { seed: "42" },
+    { steps: 0 },
+    { guidance: -1 },
+    { negative_prompt: 1 },
+    { watermark: "no" },
+  ];
+  for (const raw of invalid) {
+    assert(!parseGenerationParams(raw).ok, `expected invalid: ${JSON.stringify(raw)}`);
+  }
+});
+
+Deno.test("生成参数：chat / Images API 请求携带 params", () => {
+  const chat = normalizeChatRequest({
+    messages: [{ role: "user", content: "猫" }],
+    seed: 7,
+    negative_prompt: "文字",
+  });
+  assertEquals(chat.params, { seed: 7, negativePrompt: "文字" });
+  assertEquals(normalizeChatRequest({ messages: [] }).params, undefined);
+
+  const images = parseImageGenerationRequest({ prompt: "猫", steps: 20 });
+  assert(images.ok);
+  assertEquals(toNormalizedRequest(images.value).params, { steps: 20 });
+
+  const bad = parseImageGenerationRequest({ prompt: "猫", watermark: 1 });
+  assert(!bad.ok);
+  assertEquals(bad.message, "watermark must be a boolean");
+});
+
+Deno.test("生成参数：按渠道字段名映射，缺少字段名的参数视为不支持", () => {
+  assertEquals(
+    mapGenerationParams(
+      { seed: 1, negativePrompt: "文字", steps: 4 },
+      { seed: "seed", steps: "num_inference_steps" },
+    ),
+    { fields: { seed: 1, num_inference_steps: 4 }, unsupported: ["negativePrompt"] },
+  );
+  assertEquals(mapGenerationParams(undefined, { seed: "seed" }), { fields: {}, unsupported: [] });
+});
@@ -1,4 +1,4 @@
-import { assert, assertEquals } from "./_assert.ts";
+import { assert, assertEquals, assertRejects } from "./_assert.ts";
 import { decodeBase64, encodeBase64 } from "../base64.ts";
 import { extractLastUserPromptAndImages, normalizeChatRequest } from "../normalizer.ts";
 import { prepareImagesForUpstream } from "../image_input.ts";
@@ -76,4 +76,34 @@ Deno.test("content=array + image_url.url=dataURL（直接解析）", async () =>
   assertEquals(resolved.dataUrl, dataUrl);
 });
 
+Deno.test("按文件头识别真实格式：修正声明错误的 mime，并返回尺寸", async () => {
+  const resolved = await resolveImage(`data:image/jpeg;base64,${ONE_BY_ONE_PNG_BASE64}`);
+  assertEquals(resolved.format, "png");
+  assertEquals(resolved.mime, "image/png");
+  assertEquals([resolved.width, resolved.height], [1, 1]);
+  assertEquals(resolved.dataUrl, `data:image/png;base64,${ONE_BY_ONE_PNG_BASE64}`);
+});
+
+Deno.test("按文件头校验：非图片内容、不允许的格式与超出尺寸上限时报错", async () => {
+  const html = new TextEncoder().encode("<html>403 Forbidden</html>");
+  const fetchFn: typeof fetch = () =>
+    Promise.resolve(new Response(html, { headers: { "content-type": "image/png" } }));
+  await assertRejects(
+    () => resolveImage("https://example.com/a.png", { fetchFn }),
+    "Unsupported image format",
+  );
 
+  const dataUrl = `data:image/png;base64,${ONE_BY_ONE_PNG_BASE64}`;
+  await assertRejects(
+    () => resolveImage(dataUrl, { allowedFormats: ["jpeg", "webp"] }),
+    "Image format png is not allowed",
+  );
+
+  // 将 IHDR 宽度改为 5000
+  const big = decodeBase64(ONE_BY_ONE_PNG_BASE64);
+  new DataView(big.buffer, big.byteOffset).setUint32(16, 5000);
+  await assertRejects(
+    () => resolveImage(`data:image/png;base64,${encodeBase64(big)}`, { maxDimension: 4096 }),
+    "5000x1 exceeds 4096px",
+  );
+});
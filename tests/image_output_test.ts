@@ -0,0 +1,48 @@
+import { assertEquals, assertRejects } from "./_assert.ts";
+import { decodeBase64 } from "../base64.ts";
+import { inlineGeneratedImages, parseImageOutputMode } from "../image_output.ts";
+
+const ONE_BY_ONE_PNG_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/x8AAwMB/6X5ZQAAAABJRU5ErkJggg==";
+
+Deno.test("输出模式：解析 url / b64_json，未知值使用默认值", () => {
+  assertEquals(parseImageOutputMode("B64_JSON", "url"), "b64_json");
+  assertEquals(parseImageOutputMode("url", "b64_json"), "url");
+  assertEquals(parseImageOutputMode({ type: "json_object" }, "url"), "url");
+  assertEquals(parseImageOutputMode(undefined, "b64_json"), "b64_json");
+});
+
+Deno.test("b64_json：下载只有 URL 的生成结果并内联为 dataURL", async () => {
+  const seen: string[] = [];
+  const fetchFn: typeof fetch = (input) => {
+    seen.push(String(input));
+    return Promise.resolve(
+      new Response(new Uint8Array(decodeBase64(ONE_BY_ONE_PNG_BASE64)), {
+        headers: { "content-type": "image/png" },
+      }),
+    );
+  };
+
+  const images = await inlineGeneratedImages([
+    { url: "https://tos.example.com/a.png?X-Tos-Expires=3600", revised_prompt: "猫" },
+    { b64_json: "QUJD" },
+  ], { fetchFn });
+
+  assertEquals(seen, ["https://tos.example.com/a.png?X-Tos-Expires=3600"]);
+  assertEquals(images, [
+    { b64_json: `data:image/png;base64,${ONE_BY_ONE_PNG_BASE64}`, revised_prompt: "猫" },
+    { b64_json: "QUJD" },
+  ]);
+});
+
+Deno.test("b64_json：超过大小限制时报错", async () => {
+  const fetchFn: typeof fetch = () =>
+    Promise.resolve(
+      new Response(new Uint8Array(16), { headers: { "content-type": "image/png" } }),
+    );
+
+  await assertRejects(
+    () => inlineGeneratedImages([{ url: "https://example.com/big.png" }], { fetchFn, maxBytes: 8 }),
+    "Failed to download generated image",
+  );
+});
@@ -0,0 +1,54 @@
+import { assertEquals } from "./_assert.ts";
+import { negotiateSize, parseSizeSpec } from "../image_size.ts";
+import { GiteeConfig, VolcEngineConfig } from "../config.ts";
+
+const sizeOf = (requested: string | undefined, defaultSize: string, limits = {}) =>
+  negotiateSize(requested, defaultSize, limits).size;
+
+Deno.test("尺寸解析：WxH / 宽高比 / 档位 / auto，非法值返回 undefined", () => {
+  assertEquals(parseSizeSpec("1024x1536"), { kind: "exact", width: 1024, height: 1536 });
+  assertEquals(parseSizeSpec(" 1792 X 1024 "), { kind: "exact", width: 1792, height: 1024 });
+  assertEquals(parseSizeSpec("16:9"), { kind: "ratio", width: 16, height: 9 });
+  assertEquals(parseSizeSpec("2k"), { kind: "tier", side: 2048 });
+  assertEquals(parseSizeSpec("AUTO"), { kind: "auto" });
+  assertEquals(parseSizeSpec("0x512"), undefined);
+  assertEquals(parseSizeSpec("3K"), undefined);
+  assertEquals(parseSizeSpec("large"), undefined);
+});
+
+Deno.test("尺寸协商：未指定 / auto 使用默认尺寸，不限制时原样使用", () => {
+  assertEquals(sizeOf(undefined, "2048x2048"), "2048x2048");
+  assertEquals(sizeOf("auto", "1024x1024"), "1024x1024");
+  assertEquals(sizeOf("1K", "2048x2048"), "1024x1024");
+  assertEquals(sizeOf("333x777", "1024x1024"), "333x777");
+  // 宽高比沿用默认尺寸的总像素
+  assertEquals(sizeOf("1:4", "1024x1024"), "512x2048");
+});
+
+Deno.test("尺寸协商：按单边范围与倍数吸附（Gitee / ModelScope）", () => {
+  const limits = GiteeConfig.sizeLimits!;
+  assertEquals(sizeOf("4K", "2048x2048", limits), "2048x2048");
+  assertEquals(sizeOf("1000x1000", "2048x2048", limits), "1024x1024");
+  // 16:9 按默认像素计算为 2731x1536，长边超出 2048 时等比缩小
+  assertEquals(sizeOf("16:9", "2048x2048", limits), "2048x1152");
+  assertEquals(sizeOf("256x256", "2048x2048", limits), "512x512");
+  const result = negotiateSize("1000x1000", "2048x2048", limits);
+  assertEquals([result.width, result.height, result.adjusted], [1024, 1024, true]);
+  assertEquals(negotiateSize("16:9", "2048x2048", limits).adjusted, false);
+});
+
+Deno.test("尺寸协商：按像素预算与宽高比上限吸附（VolcEngine）", () => {
+  const limits = VolcEngineConfig.sizeLimits!;
+  assertEquals(sizeOf("800x800", "4096x4096", limits), "960x960");
+  assertEquals(sizeOf("8192x4096", "4096x4096", limits), "5793x2896");
+  assertEquals(sizeOf("2K", "4096x4096", limits), "2048x2048");
+  // 宽高比 32:1 收窄为 16:1
+  assertEquals(sizeOf("6400x200", "4096x4096", limits), "4525x283");
+});
+
+Deno.test("尺寸协商：固定尺寸列表取宽高比最接近的一项", () => {
+  const limits = { presets: ["1024x1024", "1536x1024", "1024x1536"] };
+  assertEquals(sizeOf("16:9", "1024x1024", limits), "1536x1024");
+  assertEquals(sizeOf("768x1365", "1024x1024", limits), "1024x1536");
+  assertEquals(sizeOf("4K", "1024x1024", limits), "1024x1024");
+});
@@ -0,0 +1,85 @@
+import { assertEquals } from "./_assert.ts";
+import { parseImageFormats, sniffImage } from "../image_sniff.ts";
+
+// 按偏移写入字节，其余为 0
+function bytesAt(length: number, parts: [number, number[]][]): Uint8Array {
+  const out = new Uint8Array(length);
+  for (const [offset, values] of parts) out.set(values, offset);
+  return out;
+}
+
+const ascii = (s: string): number[] => Array.from(s, (c) => c.charCodeAt(0));
+
+Deno.test("识别格式：PNG / GIF / BMP 的宽高", () => {
+  const png = bytesAt(24, [
+    [0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+    [12, ascii("IHDR")],
+    [16, [0, 0, 0x04, 0x00, 0, 0, 0x03, 0x00]],
+  ]);
+  assertEquals(sniffImage(png), { format: "png", mime: "image/png", width: 1024, height: 768 });
+
+  const gif = bytesAt(10, [[0, ascii("GIF89a")], [6, [0x40, 0x01, 0xf0, 0x00]]]);
+  assertEquals(sniffImage(gif), { format: "gif", mime: "image/gif", width: 320, height: 240 });
+
+  // BITMAPINFOHEADER，高度为负（自上而下）
+  const bmp = bytesAt(26, [
+    [0, ascii("BM")],
+    [14, [40, 0, 0, 0]],
+    [18, [0x80, 0x02, 0, 0, 0x20, 0xfe, 0xff, 0xff]],
+  ]);
+  assertEquals(sniffImage(bmp), { format: "bmp", mime: "image/bmp", width: 640, height: 480 });
+});
+
+Deno.test("识别格式：JPEG 跳过 APP 段读取 SOF 帧头", () => {
+  const jpeg = bytesAt(32, [
+    [0, [0xff, 0xd8]],
+    // APP0，长度 16
+    [2, [0xff, 0xe0, 0x00, 0x10]],
+    // SOF2（渐进式）：长度、精度、高 600、宽 800
+    [20, [0xff, 0xc2, 0x00, 0x11, 0x08, 0x02, 0x58, 0x03, 0x20]],
+  ]);
+  assertEquals(sniffImage(jpeg), { format: "jpeg", mime: "image/jpeg", width: 800, height: 600 });
+
+  // 截断的文件：识别格式但没有尺寸
+  assertEquals(sniffImage(jpeg.subarray(0, 8)), { format: "jpeg", mime: "image/jpeg" });
+});
+
+Deno.test("识别格式：WebP 的 VP8 / VP8L / VP8X", () => {
+  const riff = (chunk: string, parts: [number, number[]][]): Uint8Array =>
+    bytesAt(30, [[0, ascii("RIFF")], [8, ascii("WEBP")], [12, ascii(chunk)], ...parts]);
+
+  const lossy = riff("VP8 ", [[23, [0x9d, 0x01, 0x2a, 0x00, 0x02, 0x00, 0x01]]]);
+  assertEquals(sniffImage(lossy)?.width, 512);
+  assertEquals(sniffImage(lossy)?.height, 256);
+
+  // 宽 100、高 50：14 位字段存储 (宽-1) 与 (高-1)
+  const w = 99, h = 49;
+  const lossless = riff("VP8L", [[20, [
+    0x2f,
+    w & 0xff,
+    ((w >> 8) & 0x3f) | ((h & 0x03) << 6),
+    (h >> 2) & 0xff,
+    (h >> 10) & 0x0f,
+  ]]]);
+  assertEquals(sniffImage(lossless), {
+    format: "webp",
+    mime: "image/webp",
+    width: 100,
+    height: 50,
+  });
+
+  const extended = riff("VP8X", [[24, [0xff, 0x07, 0x00, 0xff, 0x03, 0x00]]]);
+  assertEquals(sniffImage(extended)?.width, 2048);
+  assertEquals(sniffImage(extended)?.height, 1024);
+});
+
+Deno.test("识别格式：非图片内容返回 undefined", () => {
+  assertEquals(sniffImage(new TextEncoder().encode("<svg xmlns=...>")), undefined);
+  assertEquals(sniffImage(new Uint8Array(0)), undefined);
+});
+
+Deno.test("格式列表：jpg 视为 jpeg，忽略未知项与空值", () => {
+  assertEquals(parseImageFormats("PNG, jpg ,svg,jpeg"), ["png", "jpeg"]);
+  assertEquals(parseImageFormats(" "), undefined);
+  assertEquals(parseImageFormats(undefined), undefined);
+});
@@ -0,0 +1,192 @@
+import { assert, assertEquals, assertRejects } from "./_assert.ts";
+import {
+  buildFileUrl,
+  createS3Storage,
+  FILE_ID_REGEX,
+  type ImageStorage,
+  readStoredFileAsDataUrl,
+  signS3Request,
+  verifyFileUrl,
+} from "../image_storage.ts";
+import { rehostGeneratedImages } from "../image_output.ts";
+import { decodeBase64 } from "../base64.ts";
+
+const ONE_BY_ONE_PNG_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/x8AAwMB/6X5ZQAAAABJRU5ErkJggg==";
+
+const S3_CONFIG = {
+  endpoint: "http://localhost:9000",
+  bucket: "images",
+  region: "us-east-1",
+  accessKeyId: "AKIDEXAMPLE",
+  secretAccessKey: "wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY",
+};
+const FILE_ID = "img_0123456789abcdef0123456789abcdef.png";
+const EMPTY_SHA256 = "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
+
+Deno.test("S3：SigV4 签名（路径风格）", async () => {
+  const headers = await signS3Request(
+    "GET",
+    new URL(`http://localhost:9000/images/${FILE_ID}`),
+    EMPTY_SHA256,
+    S3_CONFIG,
+    new Date("2026-01-01T12:00:00Z"),
+  );
+  assertEquals(headers["x-amz-date"], "20260101T120000Z");
+  assertEquals(
+    headers["Authorization"],
+    "AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20260101/us-east-1/s3/aws4_request, " +
+      "SignedHeaders=host;x-amz-content-sha256;x-amz-date, " +
+      "Signature=0cc8ad189357b68d9bc4205dbdf45fd494ca3eafa8535d43f20b215cb6e70c51",
+  );
+});
+
+Deno.test("S3：PUT / GET 对象，不存在时返回 undefined", async () => {
+  const objects = new Map<string, { bytes: Uint8Array; mime: string }>();
+  const fetchFn: typeof fetch = async (input, init) => {
+    const url = String(input);
+    assert(new Headers(init?.headers).get("Authorization")?.startsWith("AWS4-HMAC-SHA256 "));
+    if (init?.method === "PUT") {
+      const mime = new Headers(init.headers).get("Content-Type") ?? "";
+      objects.set(url, {
+        bytes: new Uint8Array(await new Response(init.body).arrayBuffer()),
+        mime,
+      });
+      return new Response(null, { status: 200 });
+    }
+    const obj = objects.get(url);
+    if (!obj) return new Response("NoSuchKey", { status: 404 });
+    return new Response(new Uint8Array(obj.bytes), { headers: { "content-type": obj.mime } });
+  };
+
+  const storage = createS3Storage({ ...S3_CONFIG, prefix: "gen/", fetchFn });
+  await storage.put(FILE_ID, new Uint8Array([1, 2, 3]), "image/png");
+  assertEquals([...objects.keys()], [`http://localhost:9000/images/gen/${FILE_ID}`]);
+
+  const file = await storage.get(FILE_ID);
+  assertEquals(file?.mime, "image/png");
+  assertEquals([...file!.bytes], [1, 2, 3]);
+  assertEquals(await storage.get("img_ffffffffffffffffffffffffffffffff.png"), undefined);
+});
+
+Deno.test("文件链接：签名与过期校验", async () => {
+  assertEquals(
+    await buildFileUrl("https://img.example.com/", FILE_ID),
+    `https://img.example.com/files/${FILE_ID}`,
+  );
+
+  Deno.env.set("FILE_URL_SECRET", "test-secret");
+  Deno.env.set("FILE_URL_TTL_SECONDS", "60");
+  try {
+    const now = 1_800_000_000_000;
+    const url = new URL(await buildFileUrl("https://img.example.com", FILE_ID, now));
+    assertEquals(url.searchParams.get("expires"), String(now / 1000 + 60));
+
+    assertEquals(await verifyFileUrl(FILE_ID, url.searchParams, now), {
+      ok: true,
+      expiresAt: now / 1000 + 60,
+    });
+    const expired = await verifyFileUrl(FILE_ID, url.searchParams, now + 61_000);
+    assertEquals(expired.ok ? 200 : expired.status, 410);
+
+    const other = "img_ffffffffffffffffffffffffffffffff.png";
+    const forged = await verifyFileUrl(other, url.searchParams, now);
+    assertEquals(forged.ok ? 200 : forged.status, 403);
+
+    // 签名被截断或加长（长度不同）同样拒绝
+    const sig = url.searchParams.get("sig")!;
+    for (const tamperedSig of [sig.slice(0, -1), `${sig}0`]) {
+      const params = new URLSearchParams({
+        expires: url.searchParams.get("expires")!,
+        sig: tamperedSig,
+      });
+      const tampered = await verifyFileUrl(FILE_ID, params, now);
+      assertEquals(tampered.ok ? 200 : tampered.status, 403);
+    }
+  } finally {
+    Deno.env.delete("FILE_URL_SECRET");
+    Deno.env.delete("FILE_URL_TTL_SECONDS");
+  }
+});
+
+Deno.test("转存：写入存储并返回 /files/:id 链接，失败时保留上游结果", async () => {
+  const stored = new Map<string, string>();
+  const storage: ImageStorage = {
+    name: "memory",
+    put: (id, _bytes, mime) => {
+      stored.set(id, mime);
+      return Promise.resolve();
+    },
+    get: () => Promise.resolve(undefined),
+  };
+
+  const images = await rehostGeneratedImages(
+    [{ b64_json: ONE_BY_ONE_PNG_BASE64, revised_prompt: "猫" }],
+    storage,
+    { baseUrl: "https://img.example.com" },
+  );
+  const [id, mime] = [...stored.entries()][0]!;
+  assert(FILE_ID_REGEX.test(id) && id.endsWith(".png"));
+  assertEquals(mime, "image/png");
+  assertEquals(images, [{ url: `https://img.example.com/files/${id}`, revised_prompt: "猫" }]);
+
+  const failing: ImageStorage = { ...storage, put: () => Promise.reject(new Error("disk full")) };
+  const original = { url: "https://tos.example.com/a.png" };
+  const kept = await rehostGeneratedImages([original], failing, {
+    baseUrl: "https://img.example.com",
+    fetchFn: () =>
+      Promise.resolve(
+        new Response(new Uint8Array(decodeBase64(ONE_BY_ONE_PNG_BASE64)), {
+          headers: { "content-type": "image/png" },
+        }),
+      ),
+  });
+  assertEquals(kept, [original]);
+});
+
+Deno.test("本服务链接：同源 /files/:id 直接从存储读取，其他链接不处理", async () => {
+  const bytes = new Uint8Array(decodeBase64(ONE_BY_ONE_PNG_BASE64));
+  const storage: ImageStorage = {
+    name: "memory",
+    put: () => Promise.resolve(),
+    get: (id) => Promise.resolve(id === FILE_ID ? { bytes, mime: "image/png" } : undefined),
+  };
+  const base = "http://localhost:10001/proxy";
+
+  assertEquals(
+    await readStoredFileAsDataUrl(`${base}/files/${FILE_ID}`, base, storage),
+    `data:image/png;base64,${ONE_BY_ONE_PNG_BASE64}`,
+  );
+  const foreign = [
+    `http://other.example/proxy/files/${FILE_ID}`,
+    `http://localhost:10001/files/${FILE_ID}`,
+    `${base}/files/nope.png`,
+    "data:image/png;base64,AA",
+  ];
+  for (const url of foreign) {
+    assertEquals(await readStoredFileAsDataUrl(url, base, storage), undefined);
+  }
+  assertEquals(
+    await readStoredFileAsDataUrl(`${base}/files/${FILE_ID}`, base, undefined),
+    undefined,
+  );
+
+  const missing = "img_ffffffffffffffffffffffffffffffff.png";
+  await assertRejects(
+    () => readStoredFileAsDataUrl(`${base}/files/${missing}`, base, storage),
+    "not found",
+  );
+
+  // 设置 FILE_URL_SECRET 时校验签名
+  Deno.env.set("FILE_URL_SECRET", "test-secret");
+  try {
+    await assertRejects(
+      () => readStoredFileAsDataUrl(`${base}/files/${FILE_ID}`, base, storage),
+      "Invalid file signature",
+    );
+    const signed = await buildFileUrl(base, FILE_ID);
+    assert((await readStoredFileAsDataUrl(signed, base, storage))?.startsWith("data:image/png"));
+  } finally {
+    Deno.env.delete("FILE_URL_SECRET");
+  }
+});
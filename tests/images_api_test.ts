@@ -0,0 +1,55 @@
+import { assertEquals } from "./_assert.ts";
+import {
+  buildImagesResponse,
+  parseImageGenerationRequest,
+  toNormalizedRequest,
+} from "../images_api.ts";
+
+Deno.test("Images API：解析请求并设置默认值", () => {
+  const parsed = parseImageGenerationRequest({ prompt: " a cat ", model: "z-image-turbo" });
+  assertEquals(parsed.ok, true);
+  if (!parsed.ok) return;
+  assertEquals(parsed.value.prompt, "a cat");
+  assertEquals(parsed.value.n, 1);
+  // 未指定时由实际出图渠道的 IMAGE_OUTPUT_MODE 决定
+  assertEquals(parsed.value.responseFormat, undefined);
+  assertEquals(parsed.value.size, undefined);
+
+  const normalized = toNormalizedRequest(parsed.value);
+  assertEquals(normalized.model, "z-image-turbo");
+  assertEquals(normalized.messages, [{ role: "user", parts: [{ kind: "text", text: "a cat" }] }]);
+});
+
+Deno.test("Images API：校验 prompt / n / response_format", () => {
+  const message = (raw: unknown): string => {
+    const parsed = parseImageGenerationRequest(raw);
+    return parsed.ok ? "" : parsed.message;
+  };
+  assertEquals(message({}), "prompt is required");
+  assertEquals(message({ prompt: "x", n: 0 }), "n must be an integer between 1 and 10");
+  assertEquals(message({ prompt: "x", n: 1.5 }), "n must be an integer between 1 and 10");
+  assertEquals(
+    message({ prompt: "x", response_format: "png" }),
+    'response_format must be "url" or "b64_json"',
+  );
+  assertEquals(message([]), "Request body must be a JSON object");
+});
+
+Deno.test("Images API：按 response_format 构造响应", () => {
+  const images = [
+    { url: "https://example.com/a.png" },
+    { b64_json: "data:image/png;base64,QUJD" },
+    { url: "https://example.com/b.png", b64_json: "QUJD", revised_prompt: "a fluffy cat" },
+  ];
+
+  const asUrl = buildImagesResponse(images, "a cat", "url");
+  assertEquals(asUrl.data, [
+    { url: "https://example.com/a.png", revised_prompt: "a cat" },
+    { b64_json: "QUJD", revised_prompt: "a cat" },
+    { url: "https://example.com/b.png", revised_prompt: "a fluffy cat" },
+  ]);
+
+  const asB64 = buildImagesResponse(images, "a cat", "b64_json");
+  assertEquals(asB64.data[0], { url: "https://example.com/a.png", revised_prompt: "a cat" });
+  assertEquals(asB64.data[2], { b64_json: "QUJD", revised_prompt: "a fluffy cat" });
+});
@@ -0,0 +1,85 @@
+import { assert, assertEquals } from "./_assert.ts";
+import {
+  completeJob,
+  createJob,
+  failJob,
+  getJob,
+  JobLimitError,
+  toJobView,
+  updateJobProgress,
+} from "../jobs.ts";
+
+Deno.test("异步任务：进度 → 完成，只有提交者可查询", () => {
+  const now = 1_000_000;
+  const job = createJob("key-a", now);
+  assertEquals(toJobView(job).status, "queued");
+  assertEquals(getJob(job.id, "key-b", now), undefined);
+
+  updateJobProgress(job.id, {
+    stage: "polling",
+    provider: "ModelScope",
+    taskId: "t1",
+    taskStatus: "RUNNING",
+    attempt: 3,
+  }, now + 5000);
+  const running = toJobView(getJob(job.id, "key-a", now + 5000)!);
+  assertEquals(running.status, "running");
+  assertEquals(running.progress?.attempt, 3);
+
+  const result = { created: 1, data: [{ url: "https://img.local/a.png", revised_prompt: "猫" }] };
+  completeJob(job.id, result, { provider: "ModelScope", model: "z-image-turbo" }, now + 10_000);
+  // 完成后的迟到进度不会覆盖状态
+  updateJobProgress(job.id, { stage: "polling", provider: "ModelScope" }, now + 11_000);
+
+  const done = toJobView(getJob(job.id, "key-a", now + 11_000)!);
+  assertEquals(done.status, "succeeded");
+  assertEquals(done.model, "z-image-turbo");
+  assertEquals(done.result, result);
+  assertEquals(done.updated_at, Math.floor((now + 10_000) / 1000));
+});
+
+Deno.test("异步任务：失败记录错误，结束后按 TTL 清理", () => {
+  const now = 2_000_000;
+  const job = createJob("key-a", now);
+  failJob(job.id, "ModelScope Task Timeout", now);
+
+  const view = toJobView(getJob(job.id, "key-a", now)!);
+  assertEquals(view.status, "failed");
+  assertEquals(view.error, { message: "ModelScope Task Timeout" });
+
+  assert(getJob(job.id, "key-a", now + 60 * 60 * 1000 - 1) !== undefined);
+  assertEquals(getJob(job.id, "key-a", now + 60 * 60 * 1000), undefined);
+});
+
+Deno.test("异步任务：进行中与保存的任务数达到上限时拒绝提交", () => {
+  // 晚于前面用例任务的过期时间，使其先被清理
+  const now = 10_000_000;
+  const expectLimit = (pattern: string) => {
+    try {
+      createJob("key-a", now);
+    } catch (err) {
+      assert(err instanceof JobLimitError, `unexpected error: ${err}`);
+      assert(err.message.includes(pattern), err.message);
+      return;
+    }
+    throw new Error("expected JobLimitError");
+  };
+
+  Deno.env.set("JOB_MAX_ACTIVE", "2");
+  Deno.env.set("JOB_MAX_STORED", "0");
+  try {
+    const first = createJob("key-a", now);
+    createJob("key-a", now);
+    expectLimit("进行中的任务数已达上限 (2)");
+
+    // 任务结束后腾出进行中的名额，但仍占用保存名额直到过期
+    failJob(first.id, "boom", now);
+    createJob("key-a", now);
+    Deno.env.set("JOB_MAX_ACTIVE", "0");
+    Deno.env.set("JOB_MAX_STORED", "3");
+    expectLimit("任务数已达上限 (3)");
+  } finally {
+    Deno.env.delete("JOB_MAX_ACTIVE");
+    Deno.env.delete("JOB_MAX_STORED");
+  }
+});
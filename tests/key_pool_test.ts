@@ -0,0 +1,67 @@
+import { assert, assertEquals } from "./_assert.ts";
+import { parsePoolKeys, type ProviderConfig } from "../config.ts";
+import {
+  acquirePoolKey,
+  getPoolStatus,
+  reportPoolKeyFailure,
+  reportPoolKeySuccess,
+} from "../key_pool.ts";
+
+function makeConfig(strategy: ProviderConfig["keyStrategy"]): ProviderConfig {
+  return {
+    apiUrl: "http://fake.local",
+    defaultModel: "m",
+    supportedModels: ["m"],
+    defaultSize: "1024x1024",
+    keys: parsePoolKeys("a=key-a,b=key-b,key-c", "test"),
+    keyStrategy: strategy,
+  };
+}
+
+Deno.test("Key 池：解析 alias=key 与自动 alias", () => {
+  assertEquals(parsePoolKeys("main=k1, k2 ,,", "volc"), [
+    { alias: "main", key: "k1" },
+    { alias: "volc-2", key: "k2" },
+  ]);
+});
+
+Deno.test("Key 池：轮询并跳过 429 冷却中的 Key", () => {
+  const config = makeConfig("round_robin");
+  const now = 1_000_000;
+
+  assertEquals(acquirePoolKey("rr", config, now)?.alias, "a");
+  assertEquals(acquirePoolKey("rr", config, now)?.alias, "b");
+  assertEquals(acquirePoolKey("rr", config, now)?.alias, "test-3");
+
+  const benchMs = reportPoolKeyFailure("rr", config.keys![0]!, 429, now);
+  assert(benchMs > 0);
+  assertEquals(acquirePoolKey("rr", config, now)?.alias, "b");
+  assertEquals(acquirePoolKey("rr", config, now)?.alias, "test-3");
+  assertEquals(acquirePoolKey("rr", config, now)?.alias, "b");
+
+  const status = getPoolStatus("rr", config, now);
+  assertEquals(status[0]!.benched, true);
+  assertEquals(status[1]!.benched, false);
+
+  // 冷却结束后恢复参与轮询
+  assertEquals(acquirePoolKey("rr", config, now + benchMs)?.alias, "test-3");
+  assertEquals(acquirePoolKey("rr", config, now + benchMs)?.alias, "a");
+});
+
+Deno.test("Key 池：least_recently_failed 优先未失败的 Key，全部冷却时返回 undefined", () => {
+  const config = makeConfig("least_recently_failed");
+  const [a, b, c] = config.keys!;
+  const now = 2_000_000;
+
+  reportPoolKeyFailure("lrf", a!, 500, now - 10);
+  reportPoolKeyFailure("lrf", b!, 500, now - 5);
+  reportPoolKeySuccess("lrf", c!);
+  assertEquals(acquirePoolKey("lrf", config, now)?.alias, "test-3");
+
+  reportPoolKeyFailure("lrf", c!, 401, now);
+  assertEquals(acquirePoolKey("lrf", config, now)?.alias, "a");
+
+  reportPoolKeyFailure("lrf", a!, 401, now);
+  reportPoolKeyFailure("lrf", b!, 429, now);
+  assertEquals(acquirePoolKey("lrf", config, now), undefined);
+});
@@ -0,0 +1,76 @@
+import { assertEquals } from "./_assert.ts";
+import "../providers.ts";
+import { parseModelAliases } from "../config.ts";
+import { applyFileConfig, validateFileConfig } from "../config_file.ts";
+import { applyModelAlias, resolveModelAlias, setFileModelAliases } from "../model_aliases.ts";
+import { getProviders, selectProvider } from "../provider_registry.ts";
+
+Deno.test("模型别名：解析 MODEL_ALIASES 环境变量写法", () => {
+  assertEquals(
+    parseModelAliases(
+      "seedream-latest=volcengine/doubao-seedream-4-5-251128@2048x2048, z-image=Tongyi-MAI/Z-Image-Turbo,bad",
+    ),
+    {
+      "seedream-latest": { model: "volcengine/doubao-seedream-4-5-251128", size: "2048x2048" },
+      "z-image": { model: "Tongyi-MAI/Z-Image-Turbo" },
+    },
+  );
+});
+
+Deno.test("模型别名：固定渠道的别名改写为 provider/model 并补默认尺寸", () => {
+  setFileModelAliases({
+    "Seedream-Latest": { model: "volcengine/doubao-seedream-4-5-251128", size: "2048x2048" },
+    "z-image": { model: "Tongyi-MAI/Z-Image-Turbo" },
+  });
+  try {
+    const request: { model?: string; size?: string } = { model: "seedream-latest" };
+    assertEquals(applyModelAlias(request)?.provider?.name, "VolcEngine");
+    assertEquals(request, { model: "VolcEngine/doubao-seedream-4-5-251128", size: "2048x2048" });
+
+    // 客户端显式 size 优先
+    const sized = { model: "SEEDREAM-LATEST", size: "1024x1024" };
+    applyModelAlias(sized);
+    assertEquals(sized.size, "1024x1024");
+
+    // 模型名自带斜杠但前缀不是渠道名时不固定渠道
+    const z = resolveModelAlias("z-image");
+    assertEquals(z?.provider, undefined);
+    assertEquals(z?.model, "Tongyi-MAI/Z-Image-Turbo");
+
+    assertEquals(resolveModelAlias("doubao-seedream-4-0-250828"), undefined);
+
+    // 改写后的模型交由渠道选择：VolcEngine Key 正常路由，其他渠道的 Key 返回 400
+    const selection = selectProvider(crypto.randomUUID(), request.model, null);
+    assertEquals(selection.ok && selection.provider.name, "VolcEngine");
+    assertEquals(selection.ok && selection.model, "doubao-seedream-4-5-251128");
+    const mismatch = selectProvider("ms-abc", request.model, null);
+    assertEquals(mismatch.ok ? 0 : mismatch.status, 400);
+  } finally {
+    setFileModelAliases({});
+  }
+});
+
+Deno.test("模型别名：配置文件 aliases 段校验与热加载清除", () => {
+  const config = validateFileConfig({
+    aliases: { "z-image": { provider: "gitee", model: "z-image-turbo", size: "1024x1024" } },
+  });
+  assertEquals(config.aliases, {
+    "z-image": { model: "z-image-turbo", provider: "Gitee", size: "1024x1024" },
+  });
+
+  try {
+    applyFileConfig(config, getProviders());
+    assertEquals(resolveModelAlias("z-image")?.provider?.name, "Gitee");
+  } finally {
+    applyFileConfig({ providers: {} }, getProviders());
+  }
+  assertEquals(resolveModelAlias("z-image"), undefined);
+
+  let message = "";
+  try {
+    validateFileConfig({ aliases: { x: { provider: "nope", model: "m" } } });
+  } catch (err) {
+    message = err instanceof Error ? err.message : String(err);
+  }
+  assertEquals(message, "Invalid config: aliases.x.provider is not a registered provider");
+});
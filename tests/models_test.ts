@@ -0,0 +1,47 @@
+import { assertEquals } from "./_assert.ts";
+import "../providers.ts";
+import { setFileModelAliases } from "../model_aliases.ts";
+import { buildModelList, filterProvidersForCaller } from "../models.ts";
+import { getProvider, getProviders, matchProvider } from "../provider_registry.ts";
+
+Deno.test("模型列表：OpenAI 列表格式，同名模型以 渠道/模型 区分", () => {
+  const list = buildModelList(getProviders());
+  assertEquals(list.object, "list");
+
+  const ids = list.data.map((m) => m.id);
+  assertEquals(ids.filter((id) => id === "z-image-turbo").length, 1);
+  assertEquals(ids.includes("Gitee/z-image-turbo"), true);
+  assertEquals(ids.includes("Tongyi-MAI/Z-Image-Turbo"), true);
+
+  const seedream = list.data.find((m) => m.id === "doubao-seedream-4-5-251128")!;
+  assertEquals(seedream.object, "model");
+  assertEquals(seedream.owned_by, "VolcEngine");
+  assertEquals(seedream.root, "doubao-seedream-4-5-251128");
+});
+
+Deno.test("模型列表：按调用方 Key 过滤，别名只在其渠道可用时列出", () => {
+  setFileModelAliases({
+    "seedream-latest": { provider: "VolcEngine", model: "doubao-seedream-4-5-251128" },
+    "any-image": { model: "z-image-turbo" },
+  });
+  try {
+    const providers = filterProvidersForCaller({ detected: matchProvider("ms-abc") });
+    assertEquals(providers.map((p) => p.name), ["ModelScope"]);
+
+    const list = buildModelList(providers);
+    assertEquals(list.data.every((m) => m.provider === "ModelScope"), true);
+    assertEquals(list.data.some((m) => m.id === "seedream-latest"), false);
+    assertEquals(list.data.find((m) => m.id === "any-image")?.alias_of, "z-image-turbo");
+
+    const volc = buildModelList([getProvider("volcengine")!]);
+    assertEquals(
+      volc.data.find((m) => m.id === "seedream-latest")?.alias_of,
+      "VolcEngine/doubao-seedream-4-5-251128",
+    );
+
+    // 无法识别的 Key 列出全部渠道
+    assertEquals(filterProvidersForCaller({}).length, getProviders().length);
+  } finally {
+    setFileModelAliases({});
+  }
+});
@@ -1,7 +1,12 @@
 import { assert, assertEquals } from "./_assert.ts";
 import { decodeBase64, encodeBase64 } from "../base64.ts";
-import { parseChatRequestBody } from "../request_parser.ts";
+import {
+  parseChatRequest,
+  parseChatRequestBody,
+  parseImageEditRequestBody,
+} from "../request_parser.ts";
 import { extractLastUserPromptAndImages, normalizeChatRequest } from "../normalizer.ts";
+import { MAX_IMAGES_PER_REQUEST } from "../images_api.ts";
 
 const ONE_BY_ONE_PNG_BASE64 =
   "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/x8AAwMB/6X5ZQAAAABJRU5ErkJggg==";
@@ -34,4 +39,92 @@ Deno.test("multipart/form-data：payload + image(file) 自动注入到 messages[
   assertEquals(images[0]!, `data:image/png;base64,${encodeBase64(pngBytes)}`);
 });
 
+Deno.test("/v1/images/edits：multipart 多张 image[] + mask + 普通字段", async () => {
+  const pngBytes = decodeBase64(ONE_BY_ONE_PNG_BASE64);
+  const pngFile = (name: string) =>
+    new File([pngBytes.slice().buffer], name, { type: "image/png" });
+
+  const fd = new FormData();
+  fd.append("image[]", pngFile("a.png"));
+  fd.append("image[]", "https://example.com/b.png");
+  fd.set("mask", pngFile("mask.png"));
+  fd.set("prompt", "把天空换成晚霞");
+  fd.set("n", "2");
+  fd.set("size", "1024x1024");
+  fd.set("seed", "42");
+  fd.set("watermark", "false");
+
+  const req = new Request("http://localhost/v1/images/edits", { method: "POST", body: fd });
+  const parsed = await parseImageEditRequestBody(req);
+
+  assertEquals(parsed.body, {
+    prompt: "把天空换成晚霞",
+    n: 2,
+    size: "1024x1024",
+    seed: 42,
+    watermark: false,
+  });
+  assertEquals(parsed.images, [
+    `data:image/png;base64,${ONE_BY_ONE_PNG_BASE64}`,
+    "https://example.com/b.png",
+  ]);
+  assertEquals(parsed.mask, `data:image/png;base64,${ONE_BY_ONE_PNG_BASE64}`);
+});
+
+Deno.test("/v1/images/edits：JSON 请求中的 image / images / mask", async () => {
+  const req = new Request("http://localhost/v1/images/edits", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({
+      prompt: "换背景",
+      images: [{ image_url: "https://example.com/a.png" }, "https://example.com/b.png"],
+      mask: { image_url: "https://example.com/mask.png" },
+    }),
+  });
+  const parsed = await parseImageEditRequestBody(req);
+  assertEquals(parsed.body, { prompt: "换背景" });
+  assertEquals(parsed.images, ["https://example.com/a.png", "https://example.com/b.png"]);
+  assertEquals(parsed.mask, "https://example.com/mask.png");
+});
 
+function chatRequest(body: unknown): Request {
+  return new Request("http://localhost/v1/chat/completions", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+Deno.test("/v1/chat/completions：生成参数或 JSON 不合法时返回错误信息（400）", async () => {
+  const messages = [{ role: "user", content: "一只猫" }];
+  assertEquals(await parseChatRequest(chatRequest({ messages, seed: 1.5 })), {
+    ok: false,
+    message: "Invalid request body: seed must be an integer between -1 and 2147483647",
+  });
+  assertEquals(await parseChatRequest(chatRequest({ messages, watermark: "no" })), {
+    ok: false,
+    message: "Invalid request body: watermark must be a boolean",
+  });
+  assertEquals(await parseChatRequest(chatRequest("{not json")), {
+    ok: false,
+    message: "Invalid JSON body",
+  });
+
+  const parsed = await parseChatRequest(chatRequest({ messages, seed: 7 }));
+  assert(parsed.ok);
+  assertEquals(parsed.value.request.params, { seed: 7 });
+});
+
+Deno.test("/v1/chat/completions：n 不是 1..MAX_IMAGES_PER_REQUEST 的整数时返回错误信息（400）", async () => {
+  const messages = [{ role: "user", content: "一只猫" }];
+  for (const n of [0, 2.5, "2", MAX_IMAGES_PER_REQUEST + 1]) {
+    assertEquals(await parseChatRequest(chatRequest({ messages, n })), {
+      ok: false,
+      message: `Invalid request body: n must be an integer between 1 and ${MAX_IMAGES_PER_REQUEST}`,
+    });
+  }
+
+  const parsed = await parseChatRequest(chatRequest({ messages, n: MAX_IMAGES_PER_REQUEST }));
+  assert(parsed.ok);
+  assertEquals(parsed.value.request.n, MAX_IMAGES_PER_REQUEST);
+});
@@ -1,5 +1,9 @@
 import { assertEquals } from "./_assert.ts";
-import { extractLastUserPromptAndImages, normalizeChatRequest } from "../normalizer.ts";
+import {
+  extractLastUserPromptAndImages,
+  normalizeChatRequest,
+  normalizeResponsesRequest,
+} from "../normalizer.ts";
 
 Deno.test("content=string（纯文生图）", () => {
   const body = {
@@ -15,4 +19,82 @@ Deno.test("content=string（纯文生图）", () => {
   assertEquals(images, []);
 });
 
+Deno.test("Responses API：input 消息与裸片段归一化", () => {
+  const normalized = normalizeResponsesRequest({
+    model: "gpt-image-1",
+    instructions: "写实风格",
+    tools: [{ type: "image_generation", size: "1024x1536" }],
+    input: [
+      { role: "user", content: [{ type: "input_text", text: "旧的请求" }] },
+      { type: "image_generation_call", id: "ig_1", result: "QUJD" },
+      { type: "input_text", text: "把天空调暗" },
+      { type: "input_image", image_url: "https://example.com/a.png" },
+    ],
+  });
 
+  assertEquals(normalized.size, "1024x1536");
+  assertEquals(normalized.messages[0], {
+    role: "system",
+    parts: [{ kind: "text", text: "写实风格" }],
+  });
+  const { prompt, images } = extractLastUserPromptAndImages(normalized.messages);
+  assertEquals(prompt, "把天空调暗");
+  assertEquals(images, ["https://example.com/a.png"]);
+
+  assertEquals(normalizeResponsesRequest({ input: "一只猫" }).messages, [
+    { role: "user", parts: [{ kind: "text", text: "一只猫" }] },
+  ]);
+});
+
+Deno.test("多轮编辑：沿用上一轮生成的图片，merge 模式合并之前的 prompt", () => {
+  const history = [
+    { role: "user", content: "海边的灯塔，黄昏 --ar 16:9" },
+    {
+      role: "assistant",
+      content:
+        "![Generated Image](https://img.example.com/a.png)\n\n![Generated Image](https://img.example.com/b.png)",
+    },
+  ];
+  const normalized = normalizeChatRequest({
+    messages: [...history, { role: "user", content: "把天空调暗一些 --seed 3" }],
+  });
+
+  const off = extractLastUserPromptAndImages(normalized.messages);
+  assertEquals([off.prompt, off.images, off.fromHistory], ["把天空调暗一些", [], false]);
+
+  const image = extractLastUserPromptAndImages(normalized.messages, "image");
+  assertEquals(image.prompt, "把天空调暗一些");
+  assertEquals(image.images, ["https://img.example.com/a.png"]);
+  assertEquals(image.fromHistory, true);
+
+  const merged = extractLastUserPromptAndImages(normalized.messages, "merge");
+  assertEquals(merged.prompt, "海边的灯塔，黄昏\n把天空调暗一些");
+  assertEquals(merged.flags, { seed: "3" });
+
+  // 本轮自带参考图时不沿用历史图片
+  const withImage = normalizeChatRequest({
+    messages: [...history, {
+      role: "user",
+      content: [
+        { type: "text", text: "换成这张" },
+        { type: "image_url", image_url: { url: "https://example.com/c.png" } },
+      ],
+    }],
+  });
+  const own = extractLastUserPromptAndImages(withImage.messages, "merge");
+  assertEquals(own.images, ["https://example.com/c.png"]);
+  assertEquals(own.fromHistory, false);
+});
+
+Deno.test("多轮编辑：Responses API 的历史 image_generation_call 作为上一轮生成结果", () => {
+  const normalized = normalizeResponsesRequest({
+    input: [
+      { role: "user", content: "一只猫" },
+      { type: "image_generation_call", id: "ig_1", result: "QUJD" },
+      { role: "user", content: "戴上帽子" },
+    ],
+  });
+  const { prompt, images } = extractLastUserPromptAndImages(normalized.messages, "image");
+  assertEquals(prompt, "戴上帽子");
+  assertEquals(images, ["data:image/png;base64,QUJD"]);
+});
@@ -0,0 +1,60 @@
+import { assert, assertEquals } from "./_assert.ts";
+import { applyPromptFlags, formatPromptFlags, parsePromptFlags } from "../prompt_flags.ts";
+import { extractLastUserPromptAndImages, normalizeChatRequest } from "../normalizer.ts";
+
+Deno.test("提示词参数：解析末尾参数并从 prompt 中去除", () => {
+  const { prompt, flags } = parsePromptFlags(
+    "一只猫在窗台上 --ar 16:9 --seed 42 --no 文字, 水印 --n 4 --model seedream",
+  );
+  assertEquals(prompt, "一只猫在窗台上");
+  assertEquals(flags, {
+    aspectRatio: "16:9",
+    seed: "42",
+    negativePrompt: "文字, 水印",
+    n: "4",
+    model: "seedream",
+  });
+  assertEquals(
+    formatPromptFlags(flags),
+    "--ar 16:9 --seed 42 --no 文字, 水印 --n 4 --model seedream",
+  );
+});
+
+Deno.test("提示词参数：可识别参数之前的 -- 保留，之后无法识别的参数去除并记录", () => {
+  assertEquals(parsePromptFlags("a--b --verbose 风格 --ar 3:4 --v 6"), {
+    prompt: "a--b --verbose 风格",
+    flags: { aspectRatio: "3:4", ignored: ["--v"] },
+  });
+  assertEquals(parsePromptFlags("没有参数 -- 的提示词"), {
+    prompt: "没有参数 -- 的提示词",
+    flags: {},
+  });
+});
+
+Deno.test("提示词参数：写入模型 / 尺寸 / 图片数 / 生成参数", () => {
+  const request = normalizeChatRequest({
+    model: "z-image-turbo",
+    messages: [{
+      role: "user",
+      content: "城市夜景 --ar 21:9 --n 2 --seed 7 --no 人物 --model gitee/z-image-turbo",
+    }],
+    negative_prompt: "模糊",
+    steps: 8,
+  });
+  const { prompt, flags } = extractLastUserPromptAndImages(request.messages);
+  assertEquals(prompt, "城市夜景");
+  assertEquals(applyPromptFlags(request, flags), undefined);
+  assertEquals(request.model, "gitee/z-image-turbo");
+  assertEquals(request.size, "21:9");
+  assertEquals(request.n, 2);
+  assertEquals(request.params, { negativePrompt: "人物", steps: 8, seed: 7 });
+});
+
+Deno.test("提示词参数：非法值返回错误信息", () => {
+  const cases = ["--ar 1024x1024", "--n 20", "--seed abc", "--no", "--model"];
+  for (const text of cases) {
+    const request = normalizeChatRequest({ messages: [] });
+    const error = applyPromptFlags(request, parsePromptFlags(`猫 ${text}`).flags);
+    assert(error?.startsWith("Invalid --"), `expected invalid: ${text}`);
+  }
+});
@@ -0,0 +1,72 @@
+import { assertEquals } from "./_assert.ts";
+import { validateFileConfig } from "../config_file.ts";
+import { extractSystemPrompt, normalizeChatRequest } from "../normalizer.ts";
+import {
+  applyPromptTemplate,
+  composePrompt,
+  isSystemPromptEnabled,
+  setFilePromptTemplates,
+} from "../prompt_template.ts";
+
+Deno.test("提示词模板：{{prompt}} 替换与前后缀", () => {
+  assertEquals(applyPromptTemplate("一只猫", { prefix: "水彩风格" }), "水彩风格\n一只猫");
+  assertEquals(
+    applyPromptTemplate("一只猫", { template: "画面：{{prompt}}。{{prompt}}", suffix: " 无水印 " }),
+    "画面：一只猫。一只猫\n无水印",
+  );
+  // prompt 中的 $ 不作为替换模式
+  assertEquals(applyPromptTemplate("$& 价格标签", { template: "[{{prompt}}]" }), "[$& 价格标签]");
+});
+
+Deno.test("提示词模板：system 消息 → 模型 / 别名 → 客户端 Key 依次套用", () => {
+  const request = normalizeChatRequest({
+    model: "Seedream-Latest",
+    messages: [
+      { role: "system", content: "赛博朋克风格" },
+      { role: "developer", content: [{ type: "text", text: "冷色调" }] },
+      { role: "user", content: "一只猫" },
+    ],
+  });
+  const system = extractSystemPrompt(request.messages);
+  assertEquals(system, "赛博朋克风格\n冷色调");
+
+  setFilePromptTemplates(
+    validateFileConfig({
+      prompts: {
+        models: { "seedream-latest": { suffix: "高清" }, "*": { suffix: "默认" } },
+        keys: { "sk-team": { template: "<{{prompt}}>" } },
+      },
+    }).prompts!,
+  );
+  try {
+    assertEquals(composePrompt("一只猫", { system, model: request.model, apiKey: "sk-team" }), {
+      prompt: "<赛博朋克风格\n冷色调\n一只猫\n高清>",
+      applied: ["system 消息", "模型 Seedream-Latest", "客户端 Key"],
+    });
+    // system 消息含 {{prompt}} 时作为模板；未命中的模型使用 "*"
+    assertEquals(composePrompt("一只猫", { system: "主体：{{prompt}}", model: "other" }), {
+      prompt: "主体：一只猫\n默认",
+      applied: ["system 消息", "默认模板"],
+    });
+  } finally {
+    setFilePromptTemplates({});
+  }
+
+  assertEquals(composePrompt("一只猫", { model: "seedream-latest", apiKey: "sk-team" }), {
+    prompt: "一只猫",
+    applied: [],
+  });
+});
+
+Deno.test("提示词模板：system 消息默认套用，CHAT_SYSTEM_PROMPT=off 时关闭", () => {
+  const original = Deno.env.get("CHAT_SYSTEM_PROMPT");
+  try {
+    Deno.env.delete("CHAT_SYSTEM_PROMPT");
+    assertEquals(isSystemPromptEnabled(), true);
+    Deno.env.set("CHAT_SYSTEM_PROMPT", "off");
+    assertEquals(isSystemPromptEnabled(), false);
+  } finally {
+    if (original === undefined) Deno.env.delete("CHAT_SYSTEM_PROMPT");
+    else Deno.env.set("CHAT_SYSTEM_PROMPT", original);
+  }
+});
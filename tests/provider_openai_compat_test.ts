@@ -0,0 +1,86 @@
+import { assert, assertEquals, assertRejects } from "./_assert.ts";
+import { createOpenAICompatProvider } from "../provider_openai_compat.ts";
+import { generateImages } from "../provider_registry.ts";
+import { normalizeChatRequest } from "../normalizer.ts";
+
+Deno.test("OpenAI 兼容渠道：按配置的 baseUrl/keyPattern 调用 /images/generations", async () => {
+  const provider = createOpenAICompatProvider({
+    apiUrl: "http://localhost:8000/v1",
+    defaultModel: "local-sdxl",
+    supportedModels: ["local-sdxl"],
+    defaultSize: "1024x1024",
+    keyPattern: "^local-",
+  });
+
+  assert(provider.detect("local-abc"));
+  assert(!provider.detect("ms-abc"));
+
+  const originalFetch = globalThis.fetch;
+  let seenUrl = "";
+  let seenBody: Record<string, unknown> = {};
+  globalThis.fetch = (input, init) => {
+    seenUrl = String(input);
+    seenBody = JSON.parse(String(init?.body));
+    return Promise.resolve(
+      new Response(JSON.stringify({ data: [{ url: "http://localhost:8000/out.png" }] }), {
+        headers: { "content-type": "application/json" },
+      }),
+    );
+  };
+
+  try {
+    const request = normalizeChatRequest({ messages: [{ role: "user", content: "一只猫" }] });
+    const result = await generateImages(provider, {
+      apiKey: "local-abc",
+      requestId: "req_test",
+      request,
+      prompt: "一只猫",
+      images: [],
+    });
+
+    assertEquals(seenUrl, "http://localhost:8000/v1/images/generations");
+    assertEquals(seenBody.model, "local-sdxl");
+    assertEquals(seenBody.size, "1024x1024");
+    assertEquals(result.images, [{ url: "http://localhost:8000/out.png" }]);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("蒙版：按渠道 maskField 写入请求体，不支持的渠道直接拒绝", async () => {
+  const provider = createOpenAICompatProvider({
+    apiUrl: "http://localhost:8000/v1",
+    defaultModel: "local-sdxl",
+    supportedModels: ["local-sdxl"],
+    defaultSize: "1024x1024",
+    maskField: "mask_image",
+  });
+
+  const originalFetch = globalThis.fetch;
+  let seenBody: Record<string, unknown> = {};
+  globalThis.fetch = (_input, init) => {
+    seenBody = JSON.parse(String(init?.body));
+    return Promise.resolve(Response.json({ data: [{ url: "http://localhost:8000/out.png" }] }));
+  };
+
+  const request = normalizeChatRequest({ messages: [{ role: "user", content: "换背景" }] });
+  const input = {
+    apiKey: "local-abc",
+    requestId: "req_test",
+    request,
+    prompt: "换背景",
+    images: ["data:image/png;base64,AAA"],
+    mask: "data:image/png;base64,BBB",
+  };
+
+  try {
+    await generateImages(provider, input);
+    assertEquals(seenBody.image, "data:image/png;base64,AAA");
+    assertEquals(seenBody.mask_image, "data:image/png;base64,BBB");
+
+    delete provider.config.maskField;
+    await assertRejects(() => generateImages(provider, input), "不支持蒙版");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
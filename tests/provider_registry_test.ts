@@ -0,0 +1,241 @@
+import { assert, assertEquals, assertRejects } from "./_assert.ts";
+import "../providers.ts";
+import {
+  buildParamFields,
+  detectProvider,
+  generateImages,
+  getProvider,
+  planBatches,
+  type ProviderAdapter,
+  renderImagesAsMarkdown,
+  selectProvider,
+} from "../provider_registry.ts";
+import { normalizeChatRequest } from "../normalizer.ts";
+import { parsePoolKeys } from "../config.ts";
+import { acquirePoolKey, getPoolStatus } from "../key_pool.ts";
+import { UpstreamHttpError } from "../upstream.ts";
+
+Deno.test("内置渠道：按 API Key 格式检测", () => {
+  assertEquals(detectProvider("ms-abcdef123456")?.name, "ModelScope");
+  assertEquals(detectProvider("12345678-abcd-ef01-2345-67890abcdef0")?.name, "VolcEngine");
+  assertEquals(detectProvider("a".repeat(40))?.name, "Gitee");
+  assertEquals(detectProvider("sk-unknown"), undefined);
+});
+
+Deno.test("显式渠道：model 前缀 / X-ImgRouter-Provider 头", () => {
+  const uuidKey = "12345678-abcd-ef01-2345-67890abcdef0";
+
+  const byPrefix = selectProvider(uuidKey, "volcengine/doubao-seedream-4-5-251128", null);
+  assert(byPrefix.ok);
+  assertEquals(byPrefix.provider.name, "VolcEngine");
+  assertEquals(byPrefix.model, "doubao-seedream-4-5-251128");
+  assertEquals(byPrefix.explicit, true);
+
+  // 前缀不是渠道名时按普通模型名处理
+  const notPrefix = selectProvider("ms-abc", "Tongyi-MAI/Z-Image-Turbo", null);
+  assert(notPrefix.ok);
+  assertEquals(notPrefix.provider.name, "ModelScope");
+  assertEquals(notPrefix.model, "Tongyi-MAI/Z-Image-Turbo");
+  assertEquals(notPrefix.explicit, false);
+
+  // Key 无法识别时信任显式渠道
+  const byHeader = selectProvider("new-format-key", "z-image-turbo", "gitee");
+  assert(byHeader.ok);
+  assertEquals(byHeader.provider.name, "Gitee");
+
+  const keyMismatch = selectProvider(uuidKey, "gitee/z-image-turbo", null);
+  assert(!keyMismatch.ok);
+  assertEquals(keyMismatch.status, 400);
+
+  const headerMismatch = selectProvider("any", "gitee/z-image-turbo", "ModelScope");
+  assert(!headerMismatch.ok);
+  assertEquals(headerMismatch.status, 400);
+
+  const unknown = selectProvider("sk-unknown", "some-model", null);
+  assert(!unknown.ok);
+  assertEquals(unknown.status, 401);
+});
+
+Deno.test("访问令牌：只在配置了 Key 池的渠道中选择", () => {
+  const gitee = getProvider("Gitee")!;
+  const originalKeys = gitee.config.keys;
+  gitee.config.keys = [{ alias: "gitee-main", key: "k" }];
+  try {
+    const byModel = selectProvider("team-token", "z-image-turbo", null, { pooled: true });
+    assert(byModel.ok);
+    assertEquals(byModel.provider.name, "Gitee");
+
+    const noPool = selectProvider("team-token", "volcengine/doubao-seedream-4-5-251128", null, {
+      pooled: true,
+    });
+    assert(!noPool.ok);
+    assertEquals(noPool.status, 400);
+  } finally {
+    gitee.config.keys = originalKeys;
+  }
+});
+
+Deno.test("generateImages：buildRequest → call → parseResult", async () => {
+  const adapter: ProviderAdapter = {
+    name: "Fake",
+    envPrefix: "FAKE",
+    config: {
+      apiUrl: "http://fake.local",
+      defaultModel: "fake-model",
+      supportedModels: ["fake-model"],
+      defaultSize: "512x512",
+    },
+    detect: () => false,
+    buildRequest: (ctx) => ({ model: ctx.model, size: ctx.size, prompt: ctx.prompt }),
+    call: (_ctx, body) => Promise.resolve({ echo: body }),
+    parseResult: (data) => {
+      const echo = (data as { echo: Record<string, unknown> }).echo;
+      return [{ url: `https://img.local/${echo.model}/${echo.size}` }];
+    },
+  };
+
+  const request = normalizeChatRequest({ messages: [{ role: "user", content: "猫" }] });
+  const result = await generateImages(adapter, {
+    apiKey: "k",
+    requestId: "req_test",
+    request,
+    prompt: "猫",
+    images: [],
+  });
+
+  assertEquals(result.provider, "Fake");
+  assertEquals(result.model, "fake-model");
+  assertEquals(result.images, [{ url: "https://img.local/fake-model/512x512" }]);
+  assert(renderImagesAsMarkdown(result.images).startsWith("![Generated Image](https://img.local/"));
+  assertEquals(renderImagesAsMarkdown([]), "图片生成失败");
+});
+
+Deno.test("Key 池：请求本身的 4xx 不计入 Key 失败，不影响选择优先级", async () => {
+  let status = 500;
+  const adapter: ProviderAdapter = {
+    name: "FakePool",
+    envPrefix: "FAKE_POOL",
+    config: {
+      apiUrl: "http://fake.local",
+      defaultModel: "fake-model",
+      supportedModels: ["fake-model"],
+      defaultSize: "512x512",
+      keys: parsePoolKeys("a=key-a,b=key-b", "test"),
+      keyStrategy: "least_recently_failed",
+    },
+    detect: () => false,
+    buildRequest: (ctx) => ({ prompt: ctx.prompt }),
+    call: () => Promise.reject(new UpstreamHttpError(`upstream ${status}`, status)),
+    parseResult: () => [],
+  };
+
+  const request = normalizeChatRequest({ messages: [{ role: "user", content: "猫" }] });
+  const input = { apiKey: "", requestId: "req_test", request, prompt: "猫", images: [] };
+
+  // a 返回 500 计入失败；b 返回 400（参数错误）不计入
+  await assertRejects(() => generateImages(adapter, { ...input, usePool: true }), "upstream 500");
+  status = 400;
+  await assertRejects(() => generateImages(adapter, { ...input, usePool: true }), "upstream 400");
+
+  const failures = getPoolStatus("FakePool", adapter.config).map((k) => k.consecutiveFailures);
+  assertEquals(failures, [1, 0]);
+  assertEquals(acquirePoolKey("FakePool", adapter.config)?.alias, "b");
+});
+
+Deno.test("n > 1：按单次上限拆分并发调用，部分失败时返回已生成的图片", async () => {
+  assertEquals(planBatches(5, 2), [2, 2, 1]);
+  assertEquals(planBatches(3, 10), [3]);
+
+  let inFlight = 0;
+  let maxInFlight = 0;
+  let calls = 0;
+  const adapter: ProviderAdapter = {
+    name: "FakeFanout",
+    envPrefix: "FAKE_FANOUT",
+    config: {
+      apiUrl: "http://fake.local",
+      defaultModel: "fake-model",
+      supportedModels: ["fake-model"],
+      defaultSize: "512x512",
+      maxImagesPerCall: 2,
+    },
+    detect: () => false,
+    buildRequest: (ctx) => ({ n: ctx.n }),
+    call: async (_ctx, body) => {
+      const call = ++calls;
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      inFlight--;
+      if (call === 2) throw new Error("upstream 500");
+      return { n: body.n, call };
+    },
+    parseResult: (data) => {
+      const { n, call } = data as { n: number; call: number };
+      return Array.from({ length: n }, (_, i) => ({ url: `https://img.local/${call}-${i}` }));
+    },
+  };
+
+  Deno.env.set("FAKE_FANOUT_FANOUT_CONCURRENCY", "2");
+  try {
+    const request = normalizeChatRequest({ n: 5, messages: [{ role: "user", content: "猫" }] });
+    const input = { apiKey: "k", requestId: "req_test", request, prompt: "猫", images: [] };
+    const result = await generateImages(adapter, input);
+
+    assertEquals(calls, 3);
+    assertEquals(maxInFlight, 2);
+    assertEquals(result.requested, 5);
+    assertEquals(result.images.map((img) => img.url), [
+      "https://img.local/1-0",
+      "https://img.local/1-1",
+      "https://img.local/3-0",
+    ]);
+    assertEquals(result.failures, ["upstream 500"]);
+
+    // 全部失败时抛出错误（可触发回退）
+    adapter.call = () => Promise.reject(new Error("upstream 503"));
+    await assertRejects(() => generateImages(adapter, input), "upstream 503");
+  } finally {
+    Deno.env.delete("FAKE_FANOUT_FANOUT_CONCURRENCY");
+  }
+});
+
+Deno.test("生成参数：写入渠道字段，不支持的参数按 UNSUPPORTED_PARAMS 忽略或拒绝", async () => {
+  const bodies: Record<string, unknown>[] = [];
+  const adapter: ProviderAdapter = {
+    name: "FakeParams",
+    envPrefix: "FAKE_PARAMS",
+    config: {
+      apiUrl: "http://fake.local",
+      defaultModel: "fake-model",
+      supportedModels: ["fake-model"],
+      defaultSize: "512x512",
+      paramFields: { seed: "seed" },
+    },
+    detect: () => false,
+    buildRequest: (ctx) => ({ seed: -1, ...buildParamFields(ctx, adapter.config) }),
+    call: (_ctx, body) => {
+      bodies.push(body);
+      return Promise.resolve({});
+    },
+    parseResult: () => [{ url: "https://img.local/a.png" }],
+  };
+
+  const request = normalizeChatRequest({
+    messages: [{ role: "user", content: "猫" }],
+    seed: 42,
+    negative_prompt: "文字",
+  });
+  const input = { apiKey: "k", requestId: "req_params", request, prompt: "猫", images: [] };
+
+  await generateImages(adapter, input);
+  assertEquals(bodies, [{ seed: 42 }]);
+
+  Deno.env.set("FAKE_PARAMS_UNSUPPORTED_PARAMS", "reject");
+  try {
+    await assertRejects(() => generateImages(adapter, input), "不支持参数: negative_prompt");
+    assertEquals(bodies.length, 1);
+  } finally {
+    Deno.env.delete("FAKE_PARAMS_UNSUPPORTED_PARAMS");
+  }
+});
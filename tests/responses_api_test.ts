@@ -0,0 +1,83 @@
+import { assertEquals } from "./_assert.ts";
+import { buildCompletedResponse, createResponsesStream } from "../responses_api.ts";
+
+async function readEvents(
+  stream: ReadableStream<Uint8Array>,
+): Promise<{ type: string; data: Record<string, unknown> }[]> {
+  const text = await new Response(stream).text();
+  return text.split("\n\n").filter((e) => e.startsWith("event: ")).map((e) => {
+    const [eventLine, dataLine] = e.split("\n");
+    return {
+      type: eventLine!.slice("event: ".length),
+      data: JSON.parse(dataLine!.slice("data: ".length)),
+    };
+  });
+}
+
+Deno.test("Responses API：非流式响应为 image_generation_call 输出项", () => {
+  const response = buildCompletedResponse("resp_1", {
+    model: "z-image-turbo",
+    images: [{ result: "QUJD", revised_prompt: "a cat" }],
+  });
+  assertEquals(response.object, "response");
+  assertEquals(response.status, "completed");
+  assertEquals(response.output.length, 1);
+  assertEquals(response.output[0]!.type, "image_generation_call");
+  assertEquals(response.output[0]!.result, "QUJD");
+  assertEquals(response.error, null);
+});
+
+Deno.test("Responses API：流式事件顺序，多张图追加输出项", async () => {
+  const stream = createResponsesStream(
+    { id: "resp_1", model: "req-model", keepAliveMs: 0 },
+    (generating) => {
+      generating();
+      generating();
+      return Promise.resolve({
+        model: "real-model",
+        images: [
+          { result: "QUJD", revised_prompt: "a cat" },
+          { result: "REVG", revised_prompt: "a cat" },
+        ],
+      });
+    },
+  );
+
+  const events = await readEvents(stream);
+  assertEquals(events.map((e) => e.type), [
+    "response.created",
+    "response.in_progress",
+    "response.output_item.added",
+    "response.image_generation_call.in_progress",
+    "response.image_generation_call.generating",
+    "response.image_generation_call.completed",
+    "response.output_item.done",
+    "response.output_item.added",
+    "response.image_generation_call.in_progress",
+    "response.image_generation_call.completed",
+    "response.output_item.done",
+    "response.completed",
+  ]);
+  assertEquals(events.map((e) => e.data.sequence_number), events.map((_, i) => i));
+
+  const completed = events.at(-1)!.data.response as {
+    model: string;
+    output: { result: string }[];
+  };
+  assertEquals(completed.model, "real-model");
+  assertEquals(completed.output.map((o) => o.result), ["QUJD", "REVG"]);
+});
+
+Deno.test("Responses API：生成失败时输出 response.failed", async () => {
+  const stream = createResponsesStream(
+    { id: "resp_1", model: "m", keepAliveMs: 0 },
+    () => Promise.reject(new Error("ModelScope Task Timeout")),
+  );
+
+  const events = await readEvents(stream);
+  const last = events.at(-1)!;
+  assertEquals(last.type, "response.failed");
+  const response = last.data.response as { status: string; error: { message: string } };
+  assertEquals(response.status, "failed");
+  assertEquals(response.error.message, "ModelScope Task Timeout");
+});
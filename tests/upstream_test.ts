@@ -0,0 +1,164 @@
+import { assert, assertEquals, assertRejects } from "./_assert.ts";
+import {
+  computeBackoffMs,
+  delay,
+  fetchWithRetry,
+  isUpstreamFault,
+  parseRetryAfter,
+  RequestCancelledError,
+} from "../upstream.ts";
+
+const policy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5 };
+
+async function withFetch(
+  responses: (() => Response)[],
+  fn: (calls: () => number) => Promise<void>,
+): Promise<void> {
+  const originalFetch = globalThis.fetch;
+  let calls = 0;
+  globalThis.fetch = () => {
+    const next = responses[Math.min(calls, responses.length - 1)]!;
+    calls++;
+    return Promise.resolve(next());
+  };
+  try {
+    await fn(() => calls);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+Deno.test("重试：Retry-After 解析与退避抖动范围", () => {
+  assertEquals(parseRetryAfter("3"), 3000);
+  assertEquals(parseRetryAfter(new Date(10_000).toUTCString(), 4_000), 6000);
+  assertEquals(parseRetryAfter("soon"), undefined);
+
+  const p = { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 300 };
+  assertEquals(computeBackoffMs(1, p, () => 0), 50);
+  assertEquals(computeBackoffMs(2, p, () => 1), 200);
+  assertEquals(computeBackoffMs(5, p, () => 1), 300);
+});
+
+Deno.test("重试：503 后重试成功，400 不重试", async () => {
+  await withFetch([
+    () => new Response("busy", { status: 503 }),
+    () => new Response("ok", { status: 200 }),
+  ], async (calls) => {
+    const resp = await fetchWithRetry("http://fake.local", {}, {
+      label: "Test",
+      timeoutMs: 1000,
+      retry: policy,
+      deadline: Date.now() + 10_000,
+    });
+    assertEquals(resp.status, 200);
+    assertEquals(calls(), 2);
+  });
+
+  await withFetch([() => new Response("bad", { status: 400 })], async (calls) => {
+    const resp = await fetchWithRetry("http://fake.local", {}, {
+      label: "Test",
+      timeoutMs: 1000,
+      retry: policy,
+      deadline: Date.now() + 10_000,
+    });
+    assertEquals(resp.status, 400);
+    assertEquals(calls(), 1);
+  });
+});
+
+Deno.test("重试：次数耗尽返回最后响应；Retry-After 超出总时限时不再等待", async () => {
+  await withFetch([() => new Response("busy", { status: 502 })], async (calls) => {
+    const resp = await fetchWithRetry("http://fake.local", {}, {
+      label: "Test",
+      timeoutMs: 1000,
+      retry: policy,
+      deadline: Date.now() + 10_000,
+    });
+    assertEquals(resp.status, 502);
+    assertEquals(calls(), 3);
+  });
+
+  await withFetch([
+    () => new Response("slow down", { status: 429, headers: { "retry-after": "60" } }),
+  ], async (calls) => {
+    const start = Date.now();
+    const resp = await fetchWithRetry("http://fake.local", {}, {
+      label: "Test",
+      timeoutMs: 1000,
+      retry: policy,
+      deadline: Date.now() + 2_000,
+    });
+    assertEquals(resp.status, 429);
+    assertEquals(calls(), 1);
+    assert(Date.now() - start < 1000);
+  });
+
+  await assertRejects(
+    () =>
+      fetchWithRetry("http://fake.local", {}, {
+        label: "Test",
+        timeoutMs: 1000,
+        retry: policy,
+        deadline: Date.now() - 1,
+      }),
+    "超出总时限",
+  );
+});
+
+Deno.test("取消：客户端断开时中止退避等待，不再重试，且不算渠道故障", async () => {
+  const controller = new AbortController();
+  await withFetch([() => new Response("busy", { status: 503 })], async (calls) => {
+    const pending = fetchWithRetry("http://fake.local", {}, {
+      label: "Test",
+      timeoutMs: 1000,
+      retry: { maxAttempts: 3, baseDelayMs: 10_000, maxDelayMs: 10_000 },
+      deadline: Date.now() + 60_000,
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 10);
+    await assertRejects(() => pending, "请求已取消");
+    assertEquals(calls(), 1);
+  });
+
+  await assertRejects(() => delay(10, controller.signal), "请求已取消");
+  assertEquals(isUpstreamFault(new RequestCancelledError("Test")), false);
+});
+
+Deno.test("重试：单次超时只重试幂等请求，生成请求（POST）超时不重试以免重复计费", async () => {
+  const originalFetch = globalThis.fetch;
+  let calls = 0;
+  globalThis.fetch = (_input, init) => {
+    calls++;
+    return new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener("abort", () => {
+        reject(new DOMException("The signal has been aborted", "AbortError"));
+      });
+    });
+  };
+  const call = { label: "Test", timeoutMs: 10, retry: policy, deadline: Date.now() + 10_000 };
+  try {
+    await assertRejects(
+      () => fetchWithRetry("http://fake.local", { method: "POST" }, call),
+      "aborted",
+    );
+    assertEquals(calls, 1);
+
+    calls = 0;
+    await assertRejects(() => fetchWithRetry("http://fake.local", {}, call), "aborted");
+    assertEquals(calls, 3);
+
+    // 网络错误（连接失败）仍然重试
+    calls = 0;
+    globalThis.fetch = () => {
+      calls++;
+      return Promise.reject(new TypeError("connection refused"));
+    };
+    await assertRejects(
+      () => fetchWithRetry("http://fake.local", { method: "POST" }, call),
+      "connection refused",
+    );
+    assertEquals(calls, 3);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
@@ -0,0 +1,220 @@
+// ================= 上游请求辅助函数 =================
+
+import { API_TIMEOUT_MS, getEnvInt, type ProviderConfig, type RetryPolicy } from "./config.ts";
+import { warn } from "./logger.ts";
+
+// 上游返回非 2xx 时抛出，携带 HTTP 状态码（用于 Key 池健康统计等）
+export class UpstreamHttpError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "UpstreamHttpError";
+    this.status = status;
+  }
+}
+
+// 客户端断开等原因取消请求时抛出（不计入熔断、不触发回退）
+export class RequestCancelledError extends Error {
+  constructor(label: string) {
+    super(`${label} 请求已取消（客户端断开）`);
+    this.name = "RequestCancelledError";
+  }
+}
+
+/**
+ * 可取消的等待（用于重试退避、任务轮询）
+ * @throws RequestCancelledError signal 中止时
+ */
+export function delay(ms: number, signal?: AbortSignal, label = "Upstream"): Promise<void> {
+  if (signal?.aborted) return Promise.reject(new RequestCancelledError(label));
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError(label));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 带超时控制的 fetch 函数
+ * @param url 请求 URL
+ * @param options fetch 选项（options.signal 中止时同样取消请求）
+ * @param timeoutMs 超时时间（毫秒），默认使用 API_TIMEOUT_MS
+ * @returns Promise<Response>
+ */
+export async function fetchWithTimeout(
+  url: string,
+  options: RequestInit,
+  timeoutMs: number = API_TIMEOUT_MS,
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const signal = options.signal
+    ? AbortSignal.any([options.signal, controller.signal])
+    : controller.signal;
+
+  try {
+    const response = await fetch(url, {
+      ...options,
+      signal,
+    });
+    return response;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * 是否属于渠道故障（用于熔断统计与跨渠道回退）
+ * - 4xx（408/429 除外）通常是请求本身的问题，不算渠道故障
+ * - 超时、网络错误、上游返回格式异常等均视为渠道故障
+ */
+export function isUpstreamFault(err: unknown): boolean {
+  if (err instanceof RequestCancelledError) return false;
+  if (err instanceof UpstreamHttpError) {
+    return err.status >= 500 || err.status === 408 || err.status === 429;
+  }
+  return true;
+}
+
+// ================= 重试与总时限 =================
+
+// 视为瞬时故障、值得重试的上游状态码
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+// 一次上游调用的公共参数（由生成管线按渠道配置构造）
+export interface UpstreamCallOptions {
+  // 日志模块名（渠道名）
+  label: string;
+  // 单次尝试超时（毫秒）
+  timeoutMs: number;
+  retry: RetryPolicy;
+  // 请求总时限（epoch 毫秒），所有尝试与等待都不会超过该时间点
+  deadline: number;
+  // 客户端断开时中止（取消进行中的请求与等待）
+  signal?: AbortSignal;
+}
+
+/**
+ * 解析渠道的重试策略：渠道配置 > <渠道>_RETRY_* > RETRY_* > 默认值
+ */
+export function resolveRetryPolicy(config: ProviderConfig, envPrefix: string): RetryPolicy {
+  const pick = (field: keyof RetryPolicy, envName: string, fallback: number): number => {
+    const v = config.retry?.[field];
+    if (typeof v === "number" && Number.isFinite(v)) return v;
+    return getEnvInt(`${envPrefix}_${envName}`, getEnvInt(envName, fallback));
+  };
+  return {
+    maxAttempts: Math.max(1, pick("maxAttempts", "RETRY_MAX_ATTEMPTS", 3)),
+    baseDelayMs: Math.max(0, pick("baseDelayMs", "RETRY_BASE_DELAY_MS", 500)),
+    maxDelayMs: Math.max(0, pick("maxDelayMs", "RETRY_MAX_DELAY_MS", 8000)),
+  };
+}
+
+/**
+ * 解析 Retry-After 响应头（秒数或 HTTP 日期）
+ * @returns 需要等待的毫秒数；无法解析时返回 undefined
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now(),
+): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number.parseInt(trimmed, 10) * 1000;
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/**
+ * 指数退避 + 抖动：第 n 次重试等待 [d/2, d]，d = min(maxDelayMs, baseDelayMs * 2^(n-1))
+ */
+export function computeBackoffMs(
+  retryNumber: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random,
+): number {
+  const exp = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retryNumber - 1));
+  return Math.round(exp / 2 + random() * (exp / 2));
+}
+
+// 单次超时后可以重试的请求方法（幂等）
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD"]);
+
+/**
+ * 是否为值得重试的瞬时故障
+ * - 网络错误（连接失败等）总是重试
+ * - 单次超时（AbortError / TimeoutError）只对幂等请求重试：超时的生成请求（POST）可能已在上游执行并计费，
+ *   重试会重复扣费
+ */
+function isTransientFetchError(err: unknown, method: string): boolean {
+  if (err instanceof TypeError) return true;
+  const timedOut = err instanceof DOMException &&
+    (err.name === "AbortError" || err.name === "TimeoutError");
+  return timedOut && IDEMPOTENT_METHODS.has(method);
+}
+
+/**
+ * 按重试策略调用上游
+ * - 429/502/503/504 与网络错误会重试，优先遵循上游 Retry-After；单次超时只对 GET / HEAD 重试
+ * - 重试耗尽或超出总时限时：有响应则返回最后一次响应（交由调用方按非 2xx 处理），否则抛出最后一次错误
+ */
+export async function fetchWithRetry(
+  url: string,
+  options: RequestInit,
+  call: UpstreamCallOptions,
+): Promise<Response> {
+  const { label, retry, deadline, signal } = call;
+  const method = (options.method ?? "GET").toUpperCase();
+
+  for (let attempt = 1;; attempt++) {
+    if (signal?.aborted) throw new RequestCancelledError(label);
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new Error(`${label} 上游请求超出总时限`);
+    }
+
+    let response: Response | undefined;
+    let failure: unknown;
+    try {
+      response = await fetchWithTimeout(
+        url,
+        { ...options, signal },
+        Math.min(call.timeoutMs, remaining),
+      );
+      if (!RETRYABLE_STATUSES.has(response.status)) return response;
+    } catch (err) {
+      if (signal?.aborted) throw new RequestCancelledError(label);
+      if (!isTransientFetchError(err, method)) throw err;
+      failure = err;
+    }
+
+    if (attempt >= retry.maxAttempts) {
+      if (response) return response;
+      throw failure;
+    }
+
+    const retryAfter = response ? parseRetryAfter(response.headers.get("retry-after")) : undefined;
+    const wait = Math.max(computeBackoffMs(attempt, retry), retryAfter ?? 0);
+    if (Date.now() + wait >= deadline) {
+      if (response) return response;
+      throw failure;
+    }
+
+    // 释放本次响应体，避免连接泄漏
+    await response?.body?.cancel().catch(() => {});
+    const reason = response ? `HTTP ${response.status}` : String(failure);
+    warn(
+      label,
+      `上游瞬时故障 (${reason})，${wait}ms 后重试 (${attempt + 1}/${retry.maxAttempts})`,
+    );
+    await delay(wait, signal, label);
+  }
+}